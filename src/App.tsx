@@ -1,22 +1,32 @@
 import "./App.css";
+import { useEffect } from "react";
 import { Routes, Route } from "react-router-dom";
 import { AuthGuard } from "./components/auth-guard";
 import Overstock from "./pages/overstock.tsx";
 import Damages from "./pages/damages.tsx";
+import Returns from "./pages/returns.tsx";
 import Sales from "./pages/sales.tsx";
 import IndexPage from "./index.tsx";
 import { Toaster } from "./components/ui/sonner";
 import Final from "./pages/final.tsx";
+import Admin from "./pages/admin.tsx";
+import { startOfflineSync } from "./lib/offline-sync";
+import { ROUTE_ROLES } from "./lib/permissions";
 
 function App() {
+  // Replay submissions captured while offline once connectivity returns
+  useEffect(() => startOfflineSync(), []);
+
   return (
     <>
       <Routes>
         <Route element={<IndexPage />} path="/" />
-        <Route element={<AuthGuard><Overstock /></AuthGuard>} path="/overstock" />
-        <Route element={<AuthGuard><Damages /></AuthGuard>} path="/damages" />
-        <Route element={<AuthGuard><Sales /></AuthGuard>} path="/sales" />
-        <Route element={<AuthGuard><Final /></AuthGuard>} path="/final" />
+        <Route element={<AuthGuard allowedRoles={ROUTE_ROLES.overstock}><Overstock /></AuthGuard>} path="/overstock" />
+        <Route element={<AuthGuard allowedRoles={ROUTE_ROLES.damages}><Damages /></AuthGuard>} path="/damages" />
+        <Route element={<AuthGuard allowedRoles={ROUTE_ROLES.returns}><Returns /></AuthGuard>} path="/returns" />
+        <Route element={<AuthGuard allowedRoles={ROUTE_ROLES.sales}><Sales /></AuthGuard>} path="/sales" />
+        <Route element={<AuthGuard allowedRoles={ROUTE_ROLES.final}><Final /></AuthGuard>} path="/final" />
+        <Route element={<AuthGuard allowedRoles={ROUTE_ROLES.admin}><Admin /></AuthGuard>} path="/admin" />
       </Routes>
       <Toaster />
     </>
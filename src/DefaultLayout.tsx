@@ -4,6 +4,7 @@ import { signOut, getCurrentUser } from "@/lib/auth";
 import { logger } from "@/lib/logger";
 import { toast } from "sonner";
 import signOutIcon from "@/assets/sign-out.svg";
+import { OfflineQueueBadge } from "@/components/offline-queue-badge";
 
 function DefaultLayout({ children }: { children: React.ReactNode }) {
   const [isSigningOut, setIsSigningOut] = useState(false);
@@ -42,6 +43,7 @@ function DefaultLayout({ children }: { children: React.ReactNode }) {
       <header className="text-black p-4 flex-shrink-0">
         {/* Top right sign out button with email */}
         <div className="flex justify-end items-center gap-2 mb-2">
+          <OfflineQueueBadge />
           {userEmail && (
             <span className="text-sm text-gray-600">{userEmail}</span>
           )}
@@ -1,16 +1,21 @@
 import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
 import { supabase } from "@/lib/supabaseClient";
 import { signIn } from "@/lib/auth";
+import { hasAnyRole, type UserRole } from "@/lib/permissions";
+import { useUserRoles } from "@/hooks/use-user-roles";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 
 interface AuthGuardProps {
   children: React.ReactNode;
+  allowedRoles?: UserRole[]; // Omit to allow any signed-in user
 }
 
-export function AuthGuard({ children }: AuthGuardProps) {
+export function AuthGuard({ children, allowedRoles }: AuthGuardProps) {
   const [isAuthenticated, setIsAuthenticated] = useState<boolean | null>(null);
+  const { roles, loading: rolesLoading } = useUserRoles();
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [isLoading, setIsLoading] = useState(false);
@@ -106,6 +111,33 @@ export function AuthGuard({ children }: AuthGuardProps) {
     );
   }
 
+  if (allowedRoles) {
+    if (rolesLoading) {
+      return (
+        <div className="min-h-screen flex items-center justify-center">
+          <div className="text-center">
+            <p className="text-lg">Loading...</p>
+          </div>
+        </div>
+      );
+    }
+
+    // Show access denied if the user's roles don't cover this page
+    if (!hasAnyRole(roles, allowedRoles)) {
+      return (
+        <div className="min-h-screen flex items-center justify-center bg-gray-50">
+          <div className="text-center space-y-4">
+            <h1 className="text-2xl font-bold">Access denied</h1>
+            <p className="text-gray-600">You don't have permission to view this page.</p>
+            <Link to="/">
+              <Button>Back to home</Button>
+            </Link>
+          </div>
+        </div>
+      );
+    }
+  }
+
   // Show protected content if authenticated
   return <>{children}</>;
 }
@@ -1,14 +1,13 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { Link } from "react-router-dom";
-import { supabase } from "@/lib/supabaseClient";
-import { logger, sanitizeErrorMessage } from "@/lib/logger";
-import { toast } from "sonner";
+import { logger } from "@/lib/logger";
 
 import { Button } from "@/components/ui/button";
 import ListComponent from "@/components/ui/list-component";
 import Search from "@/components/ui/search";
 import ItemDetailsPanel from "@/components/ui/item-details-panel";
-import { updateSalesData } from "@/components/ui/upload";
+import { DEFAULT_CLOSED_STATUS } from "@/lib/status-workflow";
+import { useReturnEditor } from "@/hooks/use-return-editor";
 
 const MONTH_ABBREVS = [
   "Jan",
@@ -35,18 +34,7 @@ function FinalMenu() {
   const defaultYear = String(now.getFullYear()).slice(-2); // Use shorthand year (25, 26, etc.)
   const [monthFilter, setMonthFilter] = useState<string>(defaultMonth);
   const [yearFilter, setYearFilter] = useState<string>(defaultYear);
-  const [returnsNumber, setReturnsNumber] = useState("");
-  const [invoiceNumber, setInvoiceNumber] = useState("");
-  const [accountNumber, setAccountNumber] = useState("");
-  const [warehouse_notes, setWarehouseNotes] = useState("");
-  const [sales_notes, setSalesNotes] = useState("");
-  const [allocated, setAllocated] = useState("");
-  const [action, setAction] = useState("");
-  const [status, setStatus] = useState("Completed");
-  const [loading, setLoading] = useState(false);
   const [refreshKey, setRefreshKey] = useState(0);
-  const [selectedItemImages, setSelectedItemImages] = useState<string[]>([]);
-  const [selectedItemAccountNumber, setSelectedItemAccountNumber] = useState<string>("");
 
   // Function to refresh the list
   const refreshList = () => {
@@ -54,130 +42,37 @@ function FinalMenu() {
     setRefreshKey((prev) => prev + 1);
   };
 
-  const handleSelect = (item: any) => {
-    if (item) {
-      logger.log("Item selected");
-      setReturnsNumber(item.rNumber || "");
-      // Ensure invoice number is stored as string for consistency
-      setInvoiceNumber(String(item.InvoiceNumber || ""));
-      setAccountNumber(item.accountNumber || "");
-      setWarehouseNotes(item.warehouse_notes || "");
-      setSalesNotes(item.sales_notes || "");
-      setAllocated(item.team || "");
-      setAction(item.action || "");
-      setStatus(item.status || "Completed");
-      // Store images and account number for display
-      setSelectedItemImages(item.images || []);
-      setSelectedItemAccountNumber(item.accountNumber || "");
-      
-      // Push state to browser history so browser back button works correctly
-      window.history.pushState({ invoiceNumber: item.InvoiceNumber }, '', window.location.pathname);
-    }
-  };
-
-  const handleBack = () => {
-    setReturnsNumber("");
-    setInvoiceNumber("");
-    setAccountNumber("");
-    setWarehouseNotes("");
-    setSalesNotes("");
-    setAllocated("");
-    setAction("");
-    setStatus("Completed");
-    setSelectedItemImages([]);
-    setSelectedItemAccountNumber("");
-  };
-
-  // Handle browser back/forward navigation
-  useEffect(() => {
-    const handlePopState = () => {
-      // When browser back button is pressed, clear the selected item to show list
-      if (invoiceNumber) {
-        handleBack();
-      }
-    };
-
-    window.addEventListener('popstate', handlePopState);
-    return () => {
-      window.removeEventListener('popstate', handlePopState);
-    };
-  }, [invoiceNumber]);
-
-  const handleTeamChange = (value: string) => {
-    setAllocated(value);
-  };
-
-  const handleActionChange = (value: string) => {
-    setAction(value);
-  };
-
-  const handleStatusChange = (value: string) => {
-    setStatus(value);
-  };
-
-  const handleUpdate = async () => {
-    // Check if we have an invoice number
-    if (!invoiceNumber) {
-      toast.warning("Please select an item first");
-      return;
-    }
-
-    logger.log("handleUpdate called");
-
-    // Always update database with current input field values (overwrite existing)
-    setLoading(true);
-    try {
-      // Step 1: Update the database with new values
-      await updateSalesData(invoiceNumber, {
-        warehouse_notes: warehouse_notes,
-        sales_notes: sales_notes,
-        team: allocated || null,
-        action: action || null,
-        status: status || null,
-      });
-
-      logger.log("Database updated successfully");
-
-      // Step 2: Retrieve the updated data from the database
-      const invoiceNum = parseInt(invoiceNumber, 10);
-      const { data: updatedData, error: fetchError } = await supabase
-        .from("returns-app")
-        .select()
-        .eq("InvoiceNumber", invoiceNum)
-        .single();
-
-      if (fetchError) {
-        logger.error("Error fetching updated data:", fetchError);
-        throw new Error("Failed to retrieve updated data. Please try again.");
-      }
-
-      logger.log("Retrieved updated data from database");
-
-      // Step 3: Update form fields with fresh data from database
-      if (updatedData) {
-        setWarehouseNotes(updatedData.warehouse_notes || "");
-        setSalesNotes(updatedData.sales_notes || "");
-        setAllocated(updatedData.team || "");
-        setAction(updatedData.action || "");
-        setStatus(updatedData.status || "Completed");
-      }
-
-      // Step 4: Refresh the list to show updated data
-      refreshList();
-
-      toast.success("Updated successfully!");
-      
-      // Step 5: Reset state to default so search shows back up
-      handleBack();
-    } catch (error) {
-      logger.error("Update error in handleUpdate:", error);
-      const errorMessage = sanitizeErrorMessage(error);
-      toast.error(`Error updating notes: ${errorMessage}`);
-    } finally {
-      setLoading(false);
-    }
-  };
-
+  const {
+    returnsNumber,
+    setReturnsNumber,
+    invoiceNumber,
+    setInvoiceNumber,
+    accountNumber,
+    setAccountNumber,
+    warehouse_notes,
+    setWarehouseNotes,
+    sales_notes,
+    setSalesNotes,
+    allocated,
+    action,
+    status,
+    loading,
+    selectedItemImages,
+    selectedItemAccountNumber,
+    remoteRecord,
+    conflict,
+    loadRecord,
+    handleSelect,
+    handleBack,
+    handleRecordChange,
+    handleTeamChange,
+    handleActionChange,
+    handleStatusChange,
+    handleUpdate,
+    handleResolveConflict,
+    dismissRemoteRecord,
+    cancelConflict,
+  } = useReturnEditor({ defaultStatus: DEFAULT_CLOSED_STATUS, enforceWorkflow: false, onSaved: refreshList });
 
   return (
     <div className="w-full min-h-screen md:h-screen flex flex-col md:flex-row md:overflow-hidden">
@@ -225,6 +120,7 @@ function FinalMenu() {
             assessedFilter={assessedFilter}
             showOnlyCompleted={true}
             onSelect={handleSelect}
+            onRecordChange={handleRecordChange}
             onBack={handleBack}
             showInlineImageViewer={false}
             selectedInvoiceNumber={invoiceNumber}
@@ -256,7 +152,13 @@ function FinalMenu() {
           onStatusChange={handleStatusChange}
           onUpdate={handleUpdate}
           onBack={handleBack}
-          requireTeamAndActionForCompleted={false}
+          updatedElsewhere={remoteRecord !== null}
+          onReloadLatest={() => remoteRecord && loadRecord(remoteRecord)}
+          onDismissUpdate={dismissRemoteRecord}
+          conflict={conflict ? { base: conflict.base, theirs: conflict.latest } : null}
+          onResolveConflict={handleResolveConflict}
+          onCancelConflict={cancelConflict}
+          enforceWorkflow={false}
         />
       )}
     </div>
@@ -0,0 +1,48 @@
+import { useEffect, useState } from "react";
+import {
+  subscribeToOfflineQueueStatus,
+  syncOfflineQueue,
+  getOfflineQueueStatus,
+  type OfflineQueueStatus,
+} from "@/lib/offline-sync";
+
+export function OfflineQueueBadge() {
+  const [status, setStatus] = useState<OfflineQueueStatus>(getOfflineQueueStatus);
+
+  useEffect(() => subscribeToOfflineQueueStatus(setStatus), []);
+
+  const total = status.pending + status.failed;
+
+  // Nothing to show while online with an empty queue
+  if (status.online && total === 0 && !status.syncing) {
+    return null;
+  }
+
+  let label: string;
+  let colour: string;
+  if (status.syncing) {
+    label = `Syncing ${total}...`;
+    colour = "bg-blue-100 text-blue-800";
+  } else if (!status.online) {
+    label = total > 0 ? `Offline - ${total} queued` : "Offline";
+    colour = "bg-gray-200 text-gray-800";
+  } else if (status.failed > 0) {
+    label = `${status.failed} failed to sync - retry`;
+    colour = "bg-red-100 text-red-800";
+  } else {
+    label = `${total} queued`;
+    colour = "bg-orange-100 text-orange-800";
+  }
+
+  return (
+    <button
+      type="button"
+      className={`text-xs font-medium rounded-full px-3 py-1 ${colour}`}
+      onClick={() => syncOfflineQueue({ includeFailed: true })}
+      disabled={status.syncing || !status.online}
+      title="Submissions captured offline are sent automatically when the connection returns"
+    >
+      {label}
+    </button>
+  );
+}
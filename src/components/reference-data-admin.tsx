@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useReferenceData } from "@/hooks/use-reference-data";
+import { logger, sanitizeErrorMessage } from "@/lib/logger";
+import {
+  referenceDataAdmin,
+  type ReferenceKind,
+  type ReferenceValue,
+} from "@/lib/reference-data";
+
+const SECTIONS: Array<{ kind: ReferenceKind; title: string; canAdd: boolean }> = [
+  { kind: "team", title: "Teams", canAdd: true },
+  { kind: "action", title: "Actions", canAdd: true },
+  { kind: "status", title: "Statuses", canAdd: false }, // New statuses need workflow rules, see status-workflow.ts
+];
+
+type ReferenceSectionProps = {
+  kind: ReferenceKind;
+  title: string;
+  canAdd: boolean;
+  values: ReferenceValue[];
+};
+
+function ReferenceSection({ kind, title, canAdd, values }: ReferenceSectionProps) {
+  const [newLabel, setNewLabel] = useState("");
+  const [editing, setEditing] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  const run = async (task: () => Promise<void>, success: string) => {
+    setSaving(true);
+    try {
+      await task();
+      toast.success(success);
+    } catch (error) {
+      logger.error("Reference data error:", error);
+      toast.error(sanitizeErrorMessage(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAdd = () =>
+    run(async () => {
+      await referenceDataAdmin.create(kind, newLabel);
+      setNewLabel("");
+    }, "Added");
+
+  const handleRename = (item: ReferenceValue) =>
+    run(async () => {
+      await referenceDataAdmin.rename(item, editing[item.value] ?? item.label);
+      setEditing((prev) => {
+        const next = { ...prev };
+        delete next[item.value];
+        return next;
+      });
+    }, "Renamed");
+
+  const handleMove = (index: number, offset: number) => {
+    const ordered = [...values];
+    const [item] = ordered.splice(index, 1);
+    ordered.splice(index + offset, 0, item);
+    return run(() => referenceDataAdmin.reorder(kind, ordered), "Order saved");
+  };
+
+  const handleRetire = (item: ReferenceValue) =>
+    run(() => referenceDataAdmin.setRetired(item, !item.retired), item.retired ? "Restored" : "Retired");
+
+  return (
+    <section className="flex flex-col gap-2">
+      <h2 className="text-lg font-semibold">{title}</h2>
+      {values.map((item, index) => {
+        const label = editing[item.value] ?? item.label;
+        return (
+          <div key={item.value} className="flex flex-wrap items-center gap-2">
+            <Input
+              className={`flex-1 min-w-40 ${item.retired ? "text-gray-400" : ""}`}
+              value={label}
+              onChange={(e) => setEditing((prev) => ({ ...prev, [item.value]: e.target.value }))}
+              disabled={saving}
+            />
+            {label !== item.label && (
+              <Button size="sm" onClick={() => handleRename(item)} disabled={saving}>
+                Save
+              </Button>
+            )}
+            <Button size="sm" variant="outline" onClick={() => handleMove(index, -1)} disabled={saving || index === 0}>
+              Up
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => handleMove(index, 1)}
+              disabled={saving || index === values.length - 1}
+            >
+              Down
+            </Button>
+            {(item.retired || referenceDataAdmin.canRetire(item)) && (
+              <Button size="sm" variant="ghost" onClick={() => handleRetire(item)} disabled={saving}>
+                {item.retired ? "Restore" : "Retire"}
+              </Button>
+            )}
+          </div>
+        );
+      })}
+      {canAdd && (
+        <div className="flex items-center gap-2">
+          <Input
+            className="flex-1"
+            placeholder={`New ${kind}`}
+            value={newLabel}
+            onChange={(e) => setNewLabel(e.target.value)}
+            disabled={saving}
+          />
+          <Button size="sm" onClick={handleAdd} disabled={saving || !newLabel.trim()}>
+            Add
+          </Button>
+        </div>
+      )}
+    </section>
+  );
+}
+
+export default function ReferenceDataAdmin() {
+  const reference = useReferenceData();
+
+  return (
+    <div className="w-full max-w-2xl mx-auto p-4 flex flex-col gap-6">
+      <div className="flex items-center gap-2">
+        <Button asChild>
+          <Link to="/">Home</Link>
+        </Button>
+        <h1 className="text-xl font-bold">Reference data</h1>
+      </div>
+      <p className="text-sm text-gray-600">
+        Renaming changes the label only - existing returns keep their value. Retired values are hidden from
+        pickers but still show on older returns.
+      </p>
+      {SECTIONS.map((section) => (
+        <ReferenceSection key={section.kind} {...section} values={reference[section.kind]} />
+      ))}
+    </div>
+  );
+}
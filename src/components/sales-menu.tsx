@@ -1,14 +1,13 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { Link } from "react-router-dom";
-import { supabase } from "@/lib/supabaseClient";
-import { logger, sanitizeErrorMessage } from "@/lib/logger";
-import { toast } from "sonner";
+import { logger } from "@/lib/logger";
 
 import { Button } from "@/components/ui/button";
 import ListComponent from "@/components/ui/list-component";
 import Search from "@/components/ui/search";
 import ItemDetailsPanel from "@/components/ui/item-details-panel";
-import { updateSalesData } from "@/components/ui/upload";
+import { INITIAL_STATUS } from "@/lib/status-workflow";
+import { useReturnEditor } from "@/hooks/use-return-editor";
 
 const MONTH_ABBREVS = [
   "Jan",
@@ -35,18 +34,7 @@ function SalesMenu() {
   const defaultYear = String(now.getFullYear()).slice(-2); // Use shorthand year (25, 26, etc.)
   const [monthFilter, setMonthFilter] = useState<string>(defaultMonth);
   const [yearFilter, setYearFilter] = useState<string>(defaultYear);
-  const [returnsNumber, setReturnsNumber] = useState("");
-  const [invoiceNumber, setInvoiceNumber] = useState("");
-  const [accountNumber, setAccountNumber] = useState("");
-  const [warehouse_notes, setWarehouseNotes] = useState("");
-  const [sales_notes, setSalesNotes] = useState("");
-  const [allocated, setAllocated] = useState("");
-  const [action, setAction] = useState("");
-  const [status, setStatus] = useState("Logged");
-  const [loading, setLoading] = useState(false);
   const [refreshKey, setRefreshKey] = useState(0);
-  const [selectedItemImages, setSelectedItemImages] = useState<string[]>([]);
-  const [selectedItemAccountNumber, setSelectedItemAccountNumber] = useState<string>("");
 
   // Function to refresh the list
   const refreshList = () => {
@@ -54,157 +42,37 @@ function SalesMenu() {
     setRefreshKey((prev) => prev + 1);
   };
 
-  const handleSelect = (item: any) => {
-    if (item) {
-      logger.log("Item selected");
-      setReturnsNumber(item.rNumber || "");
-      // Ensure invoice number is stored as string for consistency
-      setInvoiceNumber(String(item.InvoiceNumber || ""));
-      setAccountNumber(item.accountNumber || "");
-      setWarehouseNotes(item.warehouse_notes || "");
-      setSalesNotes(item.sales_notes || "");
-      setAllocated(item.team || "");
-      setAction(item.action || "");
-      setStatus(item.status || "");
-      // Store images and account number for display
-      setSelectedItemImages(item.images || []);
-      setSelectedItemAccountNumber(item.accountNumber || "");
-      
-      // Push state to browser history so browser back button works correctly
-      window.history.pushState({ invoiceNumber: item.InvoiceNumber }, '', window.location.pathname);
-    }
-  };
-
-  const handleBack = () => {
-    setReturnsNumber("");
-    setInvoiceNumber("");
-    setAccountNumber("");
-    setWarehouseNotes("");
-    setSalesNotes("");
-    setAllocated("");
-    setAction("");
-    setStatus("Logged");
-    setSelectedItemImages([]);
-    setSelectedItemAccountNumber("");
-  };
-
-  // Handle browser back/forward navigation
-  useEffect(() => {
-    const handlePopState = () => {
-      // When browser back button is pressed, clear the selected item to show list
-      if (invoiceNumber) {
-        handleBack();
-      }
-    };
-
-    window.addEventListener('popstate', handlePopState);
-    return () => {
-      window.removeEventListener('popstate', handlePopState);
-    };
-  }, [invoiceNumber]);
-
-  const handleTeamChange = (value: string) => {
-    setAllocated(value);
-  };
-
-  const handleActionChange = (value: string) => {
-    setAction(value);
-    // Automatically set status to "Assessed" when an action is set
-    if (value) {
-      setStatus("Assessed");
-    }
-  };
-
-  const handleStatusChange = (value: string) => {
-    // Validate that Completed status requires team and action
-    if (value === "Completed") {
-      if (!allocated || allocated.trim() === "") {
-        toast.error("Please assign a team before marking as Completed");
-        return;
-      }
-      if (!action || action.trim() === "") {
-        toast.error("Please select an action before marking as Completed");
-        return;
-      }
-    }
-    setStatus(value);
-  };
-
-  const handleUpdate = async () => {
-    // Check if we have an invoice number
-    if (!invoiceNumber) {
-      toast.warning("Please select an item first");
-      return;
-    }
-
-    // Validate that Completed status requires team and action
-    if (status === "Completed") {
-      if (!allocated || allocated.trim() === "") {
-        toast.error("Cannot mark as Completed: Please assign a team first");
-        return;
-      }
-      if (!action || action.trim() === "") {
-        toast.error("Cannot mark as Completed: Please select an action first");
-        return;
-      }
-    }
-
-    logger.log("handleUpdate called");
-
-    // Always update database with current input field values (overwrite existing)
-    setLoading(true);
-    try {
-      // Step 1: Update the database with new values
-      await updateSalesData(invoiceNumber, {
-        warehouse_notes: warehouse_notes,
-        sales_notes: sales_notes,
-        team: allocated || null,
-        action: action || null,
-        status: status || null,
-      });
-
-      logger.log("Database updated successfully");
-
-      // Step 2: Retrieve the updated data from the database
-      const invoiceNum = parseInt(invoiceNumber, 10);
-      const { data: updatedData, error: fetchError } = await supabase
-        .from("returns-app")
-        .select()
-        .eq("InvoiceNumber", invoiceNum)
-        .single();
-
-      if (fetchError) {
-        logger.error("Error fetching updated data:", fetchError);
-        throw new Error("Failed to retrieve updated data. Please try again.");
-      }
-
-      logger.log("Retrieved updated data from database");
-
-      // Step 3: Update form fields with fresh data from database
-      if (updatedData) {
-        setWarehouseNotes(updatedData.warehouse_notes || "");
-        setSalesNotes(updatedData.sales_notes || "");
-        setAllocated(updatedData.team || "");
-        setAction(updatedData.action || "");
-        setStatus(updatedData.status || "");
-      }
-
-      // Step 4: Refresh the list to show updated data
-      refreshList();
-
-      toast.success("Updated successfully!");
-      
-      // Step 5: Reset state to default so search shows back up
-      handleBack();
-    } catch (error) {
-      logger.error("Update error in handleUpdate:", error);
-      const errorMessage = sanitizeErrorMessage(error);
-      toast.error(`Error updating notes: ${errorMessage}`);
-    } finally {
-      setLoading(false);
-    }
-  };
-
+  const {
+    returnsNumber,
+    setReturnsNumber,
+    invoiceNumber,
+    setInvoiceNumber,
+    accountNumber,
+    setAccountNumber,
+    warehouse_notes,
+    setWarehouseNotes,
+    sales_notes,
+    setSalesNotes,
+    allocated,
+    action,
+    status,
+    loading,
+    selectedItemImages,
+    selectedItemAccountNumber,
+    remoteRecord,
+    conflict,
+    loadRecord,
+    handleSelect,
+    handleBack,
+    handleRecordChange,
+    handleTeamChange,
+    handleActionChange,
+    handleStatusChange,
+    handleUpdate,
+    handleResolveConflict,
+    dismissRemoteRecord,
+    cancelConflict,
+  } = useReturnEditor({ defaultStatus: INITIAL_STATUS, enforceWorkflow: true, onSaved: refreshList });
 
   return (
     <div className="w-full min-h-screen md:h-screen flex flex-col md:flex-row md:overflow-hidden">
@@ -251,6 +119,7 @@ function SalesMenu() {
             assignedFilter={assignedFilter}
             assessedFilter={assessedFilter}
             onSelect={handleSelect}
+            onRecordChange={handleRecordChange}
             onBack={handleBack}
             showInlineImageViewer={false}
             selectedInvoiceNumber={invoiceNumber}
@@ -282,7 +151,13 @@ function SalesMenu() {
           onStatusChange={handleStatusChange}
           onUpdate={handleUpdate}
           onBack={handleBack}
-          requireTeamAndActionForCompleted={true}
+          updatedElsewhere={remoteRecord !== null}
+          onReloadLatest={() => remoteRecord && loadRecord(remoteRecord)}
+          onDismissUpdate={dismissRemoteRecord}
+          conflict={conflict ? { base: conflict.base, theirs: conflict.latest } : null}
+          onResolveConflict={handleResolveConflict}
+          onCancelConflict={cancelConflict}
+          enforceWorkflow={true}
         />
       )}
     </div>
@@ -0,0 +1,70 @@
+import { useState } from "react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { logger, sanitizeErrorMessage } from "@/lib/logger";
+import { STORAGE_LAYOUT } from "@/lib/photo-storage";
+import {
+  migrateToInvoiceLayout,
+  type LayoutMigrationProgress,
+  type LayoutMigrationResult,
+} from "@/lib/storage-maintenance";
+
+/** Move existing photos from the dated folders into one folder per account and invoice */
+export default function StorageLayoutAdmin() {
+  const [progress, setProgress] = useState<LayoutMigrationProgress | null>(null);
+  const [result, setResult] = useState<LayoutMigrationResult | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const handleMigrate = async () => {
+    if (!window.confirm("Move every return's photos into account/invoice folders? This can take a while.")) return;
+    setBusy(true);
+    setResult(null);
+    try {
+      const migrated = await migrateToInvoiceLayout(setProgress);
+      setResult(migrated);
+      if (migrated.failed.length > 0) {
+        toast.error(`${migrated.failed.length} returns could not be migrated. Run the migration again to retry them.`);
+      } else {
+        toast.success(`Moved ${migrated.files} files across ${migrated.returns} returns`);
+      }
+    } catch (error) {
+      logger.error("Storage layout migration error:", error);
+      toast.error(sanitizeErrorMessage(error));
+    } finally {
+      setBusy(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <section className="w-full max-w-2xl mx-auto p-4 flex flex-col gap-2">
+      <h2 className="text-lg font-semibold">Photo folders</h2>
+      <p className="text-sm text-gray-600">
+        New photos are stored {STORAGE_LAYOUT === "invoice" ? "by account and invoice" : "by upload date and time"}.
+        Moving existing photos puts each invoice's photos in a single &lt;account&gt;/&lt;invoice&gt; folder and updates
+        the returns and line items that use them.
+      </p>
+      <div className="flex items-center gap-2">
+        <Button size="sm" variant="outline" onClick={handleMigrate} disabled={busy}>
+          {busy ? "Moving..." : "Move photos to invoice folders"}
+        </Button>
+        {progress && (
+          <span className="text-sm text-gray-600">
+            {progress.done} of {progress.total} returns
+          </span>
+        )}
+      </div>
+      {result && (
+        <div className="text-sm text-gray-600">
+          <p>
+            Moved {result.files} files across {result.returns} returns.
+          </p>
+          {result.failed.length > 0 && (
+            <p className="text-red-600 break-all">Failed invoices: {result.failed.join(", ")}</p>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
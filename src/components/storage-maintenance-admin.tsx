@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { logger, sanitizeErrorMessage } from "@/lib/logger";
+import {
+  ORPHAN_GRACE_MS,
+  findOrphanedObjects,
+  removeStorageObjects,
+  type StoredObject,
+} from "@/lib/storage-maintenance";
+
+// Orphans listed on screen - the rest are summarised in the count
+const PREVIEW_LIMIT = 20;
+
+function formatMegabytes(bytes: number) {
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/** Find and delete uploaded photos that no return or line item references */
+export default function StorageMaintenanceAdmin() {
+  const [orphans, setOrphans] = useState<StoredObject[] | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const handleScan = async () => {
+    setBusy(true);
+    try {
+      setOrphans(await findOrphanedObjects());
+    } catch (error) {
+      logger.error("Storage maintenance error:", error);
+      toast.error(sanitizeErrorMessage(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!orphans || orphans.length === 0) return;
+    if (!window.confirm(`Delete ${orphans.length} unreferenced files? This cannot be undone.`)) return;
+    setBusy(true);
+    try {
+      const removed = new Set(await removeStorageObjects(orphans.map((object) => object.path)));
+      setOrphans((s) => s?.filter((object) => !removed.has(object.path)) ?? null);
+      toast.success(`Deleted ${removed.size} files`);
+    } catch (error) {
+      logger.error("Storage maintenance error:", error);
+      toast.error(sanitizeErrorMessage(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const totalBytes = orphans?.reduce((sum, object) => sum + object.size, 0) ?? 0;
+
+  return (
+    <section className="w-full max-w-2xl mx-auto p-4 flex flex-col gap-2">
+      <h2 className="text-lg font-semibold">Unreferenced photos</h2>
+      <p className="text-sm text-gray-600">
+        Files in storage that no return or line item uses, for example from submissions that failed after their
+        photos were uploaded. Files from the last {Math.round(ORPHAN_GRACE_MS / (24 * 60 * 60 * 1000))} days are
+        skipped as they may belong to a submission still waiting to sync.
+      </p>
+      <div className="flex items-center gap-2">
+        <Button size="sm" variant="outline" onClick={handleScan} disabled={busy}>
+          {busy && !orphans ? "Scanning..." : "Scan storage"}
+        </Button>
+        {orphans && orphans.length > 0 && (
+          <Button size="sm" variant="destructive" onClick={handleDelete} disabled={busy}>
+            Delete {orphans.length} files
+          </Button>
+        )}
+      </div>
+      {orphans && (
+        <div className="text-sm">
+          {orphans.length === 0 ? (
+            <p className="text-gray-600">No unreferenced files found.</p>
+          ) : (
+            <>
+              <p className="text-gray-600">
+                {orphans.length} files, {formatMegabytes(totalBytes)}
+              </p>
+              <ul className="mt-1 font-mono text-xs text-gray-500 break-all">
+                {orphans.slice(0, PREVIEW_LIMIT).map((object) => (
+                  <li key={object.path}>{object.path}</li>
+                ))}
+                {orphans.length > PREVIEW_LIMIT && <li>...and {orphans.length - PREVIEW_LIMIT} more</li>}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
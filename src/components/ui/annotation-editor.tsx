@@ -0,0 +1,200 @@
+import { useEffect, useRef, useState } from "react";
+import { ArrowUpRight, Circle, Pencil, Type, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { loadImage } from "@/lib/image-processing";
+import {
+  ANNOTATION_COLORS,
+  drawAnnotations,
+  type Annotation,
+  type AnnotationTool,
+  type Point,
+} from "@/lib/annotations";
+
+type AnnotationEditorProps = {
+  image: Blob; // Unannotated original
+  annotations: Annotation[]; // Marks from an earlier edit, if any
+  onSave: (annotations: Annotation[]) => void;
+  onCancel: () => void;
+};
+
+const TOOLS: Array<{ id: AnnotationTool; label: string; icon: typeof Pencil }> = [
+  { id: "arrow", label: "Arrow", icon: ArrowUpRight },
+  { id: "circle", label: "Circle", icon: Circle },
+  { id: "freehand", label: "Freehand", icon: Pencil },
+  { id: "text", label: "Text", icon: Type },
+];
+
+// Drags shorter than this (in image pixels) are treated as taps and dropped
+const MIN_DRAG = 4;
+
+function isTooSmall(annotation: Annotation): boolean {
+  if (annotation.tool === "freehand") return annotation.points.length < 2;
+  if (annotation.tool === "text") return !annotation.text;
+  return Math.hypot(annotation.to.x - annotation.from.x, annotation.to.y - annotation.from.y) < MIN_DRAG;
+}
+
+/** Draw arrows, circles, freehand lines and labels over a photo to show where it is damaged */
+export default function AnnotationEditor({ image, annotations: initial, onSave, onCancel }: AnnotationEditorProps) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [img, setImg] = useState<HTMLImageElement | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [tool, setTool] = useState<AnnotationTool>("arrow");
+  const [color, setColor] = useState(ANNOTATION_COLORS[0]);
+  const [label, setLabel] = useState("");
+  const [annotations, setAnnotations] = useState<Annotation[]>(initial);
+  const [draft, setDraft] = useState<Annotation | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(image)
+      .then((loaded) => {
+        if (!cancelled) setImg(loaded);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load image");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [image]);
+
+  // Redraw the photo with every mark, including the one being drawn
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || !img) return;
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    ctx.drawImage(img, 0, 0);
+    drawAnnotations(ctx, draft ? [...annotations, draft] : annotations);
+  }, [img, annotations, draft]);
+
+  // Canvas is scaled to fit the screen, so map pointer positions back to image pixels
+  const toImagePoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * e.currentTarget.width,
+      y: ((e.clientY - rect.top) / rect.height) * e.currentTarget.height,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = toImagePoint(e);
+    if (tool === "text") {
+      if (label.trim()) {
+        setAnnotations((s) => [...s, { tool: "text", at: point, text: label.trim(), color }]);
+      }
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDraft(
+      tool === "freehand"
+        ? { tool, points: [point], color }
+        : { tool, from: point, to: point, color }
+    );
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!draft) return;
+    const point = toImagePoint(e);
+    setDraft(
+      draft.tool === "freehand"
+        ? { ...draft, points: [...draft.points, point] }
+        : draft.tool === "text"
+        ? draft
+        : { ...draft, to: point }
+    );
+  };
+
+  const handlePointerUp = () => {
+    if (draft && !isTooSmall(draft)) {
+      setAnnotations((s) => [...s, draft]);
+    }
+    setDraft(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-75 flex items-center justify-center md:block overflow-y-auto">
+      <div className="bg-white rounded-lg p-4 md:p-6 max-w-2xl w-full mx-4 md:mx-auto md:my-8 flex flex-col gap-3">
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-semibold">Mark damage</h3>
+          <button onClick={onCancel} className="text-gray-500 hover:text-gray-700 text-2xl">
+            ×
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {TOOLS.map(({ id, label: toolLabel, icon: Icon }) => (
+            <Button
+              key={id}
+              size="sm"
+              variant={tool === id ? "default" : "outline"}
+              onClick={() => setTool(id)}
+              aria-label={toolLabel}
+            >
+              <Icon className="h-4 w-4" />
+              <span className="hidden sm:inline">{toolLabel}</span>
+            </Button>
+          ))}
+          <div className="flex gap-1 ml-auto">
+            {ANNOTATION_COLORS.map((swatch) => (
+              <button
+                key={swatch}
+                className={`h-7 w-7 rounded-full border-2 ${color === swatch ? "border-black" : "border-gray-300"}`}
+                style={{ backgroundColor: swatch }}
+                onClick={() => setColor(swatch)}
+                aria-label={`Colour ${swatch}`}
+              />
+            ))}
+          </div>
+        </div>
+
+        {tool === "text" && (
+          <Input
+            placeholder="Label text, then tap the photo to place it"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            maxLength={40}
+          />
+        )}
+
+        {error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : (
+          <canvas
+            ref={canvasRef}
+            className="w-full h-auto rounded-lg bg-black"
+            style={{ touchAction: "none", maxHeight: "70vh", objectFit: "contain" }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          />
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setAnnotations((s) => s.slice(0, -1))}
+            disabled={annotations.length === 0}
+          >
+            <Undo2 className="h-4 w-4" />
+            Undo
+          </Button>
+          <Button variant="outline" onClick={() => setAnnotations([])} disabled={annotations.length === 0}>
+            Clear
+          </Button>
+          <div className="flex gap-2 ml-auto">
+            <Button variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button onClick={() => onSave(annotations)} disabled={!img}>
+              Save
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
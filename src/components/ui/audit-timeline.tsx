@@ -0,0 +1,101 @@
+import { useEffect, useState } from "react";
+import { listAuditEvents, type AuditEvent, type FieldChange } from "@/lib/audit-log";
+
+type AuditTimelineProps = {
+  invoiceNumber: string;
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  accountNumber: "Account number",
+  rNumber: "Returns number",
+  sales_notes: "Sales notes",
+  warehouse_notes: "Warehouse notes",
+  team: "Team",
+  action: "Action",
+  status: "Status",
+  images: "Images",
+  lines: "Line items",
+  quantity: "Quantity",
+};
+
+const EVENT_LABELS: Record<AuditEvent["event"], string> = {
+  created: "Logged",
+  images_appended: "Images added",
+  updated: "Updated",
+  line_items_added: "Items added",
+};
+
+function formatValue(value: FieldChange["from"]) {
+  return value === null || value === "" ? "(empty)" : String(value);
+}
+
+function formatActor(email: string | null) {
+  if (!email) return "Unknown user";
+  // Match the name shown in the header (first.last@ -> First Last)
+  return email
+    .split("@")[0]
+    .replace(/\./g, " ")
+    .split(" ")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join(" ");
+}
+
+export default function AuditTimeline({ invoiceNumber }: AuditTimelineProps) {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const invoiceNum = parseInt(invoiceNumber, 10);
+    listAuditEvents(invoiceNum)
+      .then((data) => {
+        if (!cancelled) setEvents(data);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load history");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [invoiceNumber]);
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading history...</p>;
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-gray-500">No history recorded for this return</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2">
+      {events.map((event) => (
+        <li key={event.id} className="mb-4 ml-4">
+          <div className="absolute w-3 h-3 bg-gray-300 rounded-full -left-1.5 mt-1.5 border border-white" />
+          <p className="text-xs text-gray-500">
+            {new Date(event.created_at).toLocaleString()} - {formatActor(event.actor_email)}
+          </p>
+          <p className="text-sm font-medium">{EVENT_LABELS[event.event] ?? event.event}</p>
+          <ul className="text-sm text-gray-700">
+            {Object.entries(event.changes ?? {}).map(([field, change]) => (
+              <li key={field} className="whitespace-pre-wrap break-words">
+                <span className="font-medium">{FIELD_LABELS[field] ?? field}:</span>{" "}
+                {event.event === "created"
+                  ? formatValue(change.to)
+                  : `${formatValue(change.from)} → ${formatValue(change.to)}`}
+              </li>
+            ))}
+          </ul>
+        </li>
+      ))}
+    </ol>
+  );
+}
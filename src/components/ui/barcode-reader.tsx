@@ -1,23 +1,45 @@
-import React, { useEffect, useRef, useState } from "react";
-import { Html5Qrcode } from "html5-qrcode";
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Html5Qrcode, Html5QrcodeSupportedFormats } from "html5-qrcode";
 import { logger } from "@/lib/logger";
+import ManualCodeEntry from "@/components/ui/manual-code-entry";
+import { imageExtension, processImage } from "@/lib/image-processing";
+import {
+  DEFAULT_ACCEPTED_FORMATS,
+  decodeBarcode,
+  fileNameCode,
+  getDecoder,
+  scannerFormats,
+  type DecodedBarcode,
+  type Symbology,
+} from "@/lib/barcode-decoders";
 
 type BarcodeReaderProps = {
-  onDecode?: (decodedText: string) => void;
-  onCapture?: (isbn: string, fileName: string, blob: Blob) => void;
+  onDecode?: (decodedText: string, barcode: DecodedBarcode | null) => void;
+  onCapture?: (code: string, fileName: string, blob: Blob, barcode: DecodedBarcode) => void;
+  acceptedFormats?: Symbology[]; // Barcode types the page accepts (defaults to ISBN only)
   fps?: number;
   qrbox?: number | { width: number; height: number };
   additionalButtons?: React.ReactNode;
   rightContent?: React.ReactNode;
+  onScan?: (barcode: DecodedBarcode) => void; // Enables rapid scan mode - called once per scanned item, no photo required
+  onCaptureRequestReady?: (captureFn: (barcode: DecodedBarcode) => void) => void; // Expose photo capture for an already scanned code
+  autoStart?: boolean; // Start scanning as soon as a camera is found
 };
 
+// A code seen again within this window is the same item still in view, not a re-scan
+const RAPID_REPEAT_MS = 1500;
+
 export default function BarcodeReader({
   onDecode,
   onCapture,
+  acceptedFormats = DEFAULT_ACCEPTED_FORMATS,
   fps = 10,
   qrbox = 350,
   additionalButtons,
   rightContent,
+  onScan,
+  onCaptureRequestReady,
+  autoStart = false,
 }: BarcodeReaderProps) {
   const containerIdRef = useRef(
     `html5qr-${Math.random().toString(36).slice(2)}`
@@ -27,9 +49,20 @@ export default function BarcodeReader({
   const [cameraCount, setCameraCount] = useState<number>(0);
   const [scanning, setScanning] = useState(false);
   const [_lastResult, setLastResult] = useState<string | null>(null);
-  const [detectedIsbn, setDetectedIsbn] = useState<string | null>(null);
+  const [detected, setDetected] = useState<DecodedBarcode | null>(null);
   const [error, setError] = useState<string | null>(null);
 
+  // rapid scan state - scanner stays live and every new code is reported through onScan
+  const [rapid, setRapid] = useState(false);
+  const [lastScanned, setLastScanned] = useState<DecodedBarcode | null>(null);
+  const [rapidCount, setRapidCount] = useState(0);
+  const rapidRef = useRef(false);
+  const lastRapidScanRef = useRef<{ value: string; at: number } | null>(null);
+  const resumeRapidRef = useRef(false);
+
+  // typed code when the barcode can't be read
+  const [manualOpen, setManualOpen] = useState(false);
+
   // capture UI state
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const [captureOpen, setCaptureOpen] = useState(false);
@@ -44,43 +77,6 @@ export default function BarcodeReader({
     return cameraCount >= 2;
   };
 
-  // helpers: ISBN normalization & validation
-  const isValidISBN10 = (isbn10: string) => {
-    if (!/^\d{9}[\dX]$/.test(isbn10)) return false;
-    const chars = isbn10.split("");
-    let sum = 0;
-    for (let i = 0; i < 10; i++) {
-      const c = chars[i];
-      const val = c === "X" ? 10 : parseInt(c, 10);
-      sum += (10 - i) * val;
-    }
-    return sum % 11 === 0;
-  };
-
-  const isValidISBN13 = (isbn13: string) => {
-    if (!/^\d{13}$/.test(isbn13)) return false;
-    const chars = isbn13.split("").map((c) => parseInt(c, 10));
-    let sum = 0;
-    for (let i = 0; i < 13; i++) {
-      sum += chars[i] * (i % 2 === 0 ? 1 : 3);
-    }
-    return sum % 10 === 0;
-  };
-
-  const extractISBN = (text: string): string | null => {
-    if (!text) return null;
-    // find candidate substrings with digits / X / hyphens / spaces
-    const candidates = text.match(/[\dXx\- ]{10,17}/g) ?? [];
-    for (const cand of candidates) {
-      const norm = cand.replace(/[\s\-]/g, "").toUpperCase();
-      if (norm.length === 13 && isValidISBN13(norm)) return norm;
-      if (norm.length === 10 && isValidISBN10(norm)) return norm;
-      // some EAN-13 results include leading zeros or formatting;
-      // if cand contains 13 digits but fails, keep trying other candidates
-    }
-    return null;
-  };
-
   // Helper function to find back-facing camera
   const findBackCamera = (devices: Array<{ id: string; label?: string }>): string | null => {
     if (!devices.length) return null;
@@ -278,15 +274,25 @@ export default function BarcodeReader({
     }
   }, [scanning, cameraCount]);
 
-  const startScanner = async () => {
+  const startScanner = async (rapidMode = false) => {
     setError(null);
+    setManualOpen(false);
+    rapidRef.current = rapidMode;
+    setRapid(rapidMode);
+    if (rapidMode) {
+      setDetected(null);
+    }
     if (!cameraId) {
       setError("No camera selected");
       return;
     }
 
     if (!scannerRef.current) {
-      scannerRef.current = new Html5Qrcode(containerIdRef.current);
+      // Only look for the symbologies this page accepts
+      const formatsToSupport = scannerFormats(acceptedFormats).map(
+        (name) => Html5QrcodeSupportedFormats[name as keyof typeof Html5QrcodeSupportedFormats]
+      );
+      scannerRef.current = new Html5Qrcode(containerIdRef.current, { formatsToSupport, verbose: false });
     }
 
     try {
@@ -318,19 +324,17 @@ export default function BarcodeReader({
           qrbox: finalQrbox,
           aspectRatio: 1.0, // Square aspect ratio for better mobile experience
         },
-        (decodedText) => {
-          // attempt to extract ISBN
-          const isbn = extractISBN(decodedText);
-          if (isbn) {
-            setDetectedIsbn(isbn);
-            setLastResult(decodedText);
-            onDecode?.(isbn);
-            // Don't auto-open capture - wait for user confirmation
-          } else {
-            setDetectedIsbn(null);
-            setLastResult(decodedText);
-            onDecode?.(decodedText);
+        (decodedText, result) => {
+          // Run the decoder pipeline, using the scanner's format as a hint
+          const barcode = decodeBarcode(decodedText, acceptedFormats, result?.result?.format?.formatName);
+          if (rapidRef.current) {
+            handleRapidScan(barcode);
+            return;
           }
+          setDetected(barcode);
+          setLastResult(decodedText);
+          onDecode?.(barcode?.value ?? decodedText, barcode);
+          // Don't auto-open capture - wait for user confirmation
         },
         (errorMessage) => {
           // optional per-frame error callback
@@ -344,6 +348,32 @@ export default function BarcodeReader({
     }
   };
 
+  const startScannerRef = useRef(startScanner);
+  useEffect(() => {
+    startScannerRef.current = startScanner;
+  });
+
+  // Start straight away when opened for a single read (e.g. a form field)
+  const autoStartedRef = useRef(false);
+  useEffect(() => {
+    if (!autoStart || !cameraId || autoStartedRef.current) return;
+    autoStartedRef.current = true;
+    startScannerRef.current();
+  }, [autoStart, cameraId]);
+
+  const handleRapidScan = (barcode: DecodedBarcode | null) => {
+    if (!barcode) return;
+    const now = Date.now();
+    const last = lastRapidScanRef.current;
+    lastRapidScanRef.current = { value: barcode.value, at: now };
+    // The scanner reports every frame - only count the code again once it has left the view
+    if (last && last.value === barcode.value && now - last.at < RAPID_REPEAT_MS) return;
+    setLastScanned(barcode);
+    setRapidCount((count) => count + 1);
+    navigator.vibrate?.(80);
+    onScan?.(barcode);
+  };
+
   const stopScanner = async () => {
     if (!scannerRef.current) return;
     try {
@@ -446,134 +476,78 @@ export default function BarcodeReader({
       videoRef.current.srcObject = null;
     }
     setCaptureOpen(false);
+    resumeRapidScan();
   };
 
-  const capturePhoto = () => {
-    if (!videoRef.current || !detectedIsbn) return;
+  // Go back to rapid scanning after a photo taken from rapid mode
+  const resumeRapidScan = () => {
+    if (!resumeRapidRef.current) return;
+    resumeRapidRef.current = false;
+    startScanner(true).catch((e) => {
+      logger.error("Failed to resume rapid scan", e);
+    });
+  };
 
-    const video = videoRef.current;
-    const canvas = document.createElement("canvas");
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
-    const ctx = canvas.getContext("2d");
-    
-    if (!ctx) return;
+  // Photo for a code scanned earlier (rapid mode lines)
+  const startCaptureRef = useRef<() => Promise<void>>(async () => {});
+  useEffect(() => {
+    startCaptureRef.current = startCapture;
+  });
+
+  const captureFor = useCallback((barcode: DecodedBarcode) => {
+    resumeRapidRef.current = rapidRef.current && scannerRef.current !== null;
+    setDetected(barcode);
+    startCaptureRef.current().catch((e) => {
+      logger.error("capture start failed", e);
+    });
+  }, []);
 
-    // Draw video frame to canvas
-    ctx.drawImage(video, 0, 0);
+  // Expose per-code capture to parent
+  useEffect(() => {
+    if (onCaptureRequestReady) {
+      onCaptureRequestReady(captureFor);
+    }
+  }, [captureFor, onCaptureRequestReady]);
 
-    // Calculate square dimensions (use the smaller dimension)
-    const sourceSize = Math.min(canvas.width, canvas.height);
-    
-    // Calculate crop position to center the square
-    const sourceX = (canvas.width - sourceSize) / 2;
-    const sourceY = (canvas.height - sourceSize) / 2;
-    
-    // Resize to 720p (720x720 for square, maintaining aspect ratio)
-    const targetSize = 720;
-    const croppedCanvas = document.createElement("canvas");
-    croppedCanvas.width = targetSize;
-    croppedCanvas.height = targetSize;
-    const croppedCtx = croppedCanvas.getContext("2d");
-    
-    if (!croppedCtx) return;
-    
-    // Draw the cropped square portion, scaled to 720x720
-    croppedCtx.drawImage(
-      canvas,
-      sourceX, sourceY, sourceSize, sourceSize,  // source rectangle (crop from canvas)
-      0, 0, targetSize, targetSize               // destination rectangle (720x720)
-    );
-
-    // Convert to blob with high quality
-    croppedCanvas.toBlob(
-      (blob) => {
-        if (!blob) return;
-        const fileName = `${detectedIsbn}_${Date.now()}.jpg`;
-        onCapture?.(detectedIsbn, fileName, blob);
-        closeCapture();
-      },
-      "image/jpeg",
-      0.95  // Higher quality (0.95 instead of 0.9)
-    );
+  const capturePhoto = async () => {
+    if (!videoRef.current || !detected) return;
+    const barcode = detected;
+
+    try {
+      const image = await processImage(videoRef.current);
+      const fileName = `${fileNameCode(barcode)}_${Date.now()}.${imageExtension(image.type)}`;
+      onCapture?.(barcode.value, fileName, image.blob, barcode);
+      closeCapture();
+    } catch (e) {
+      setError(String(e));
+      logger.error("Failed to process captured photo", e);
+    }
   };
 
   const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    const isbn = detectedIsbn;
-    
-    if (!file || !isbn) {
-      // Reset input so same file can be selected again
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
-      captureInProgressRef.current = false; // Reset flag if no file or ISBN
+    const barcode = detected;
+
+    // Reset input so same file can be selected again
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+
+    if (!file || !barcode) {
+      captureInProgressRef.current = false; // Reset flag if no file or barcode
       return;
     }
 
     try {
-      // Create image from file
-      const img = new Image();
-      const objectUrl = URL.createObjectURL(file);
-      
-      img.onload = () => {
-        // Calculate square dimensions (use the smaller dimension)
-        const sourceSize = Math.min(img.width, img.height);
-        
-        // Calculate crop position to center the square
-        const sourceX = (img.width - sourceSize) / 2;
-        const sourceY = (img.height - sourceSize) / 2;
-        
-        // Resize to 720p (720x720 for square, maintaining aspect ratio)
-        const targetSize = 720;
-        const canvas = document.createElement("canvas");
-        canvas.width = targetSize;
-        canvas.height = targetSize;
-        const ctx = canvas.getContext("2d");
-        if (!ctx) {
-          URL.revokeObjectURL(objectUrl);
-          return;
-        }
-        
-        // Draw the cropped square portion of the image, scaled to 720x720
-        ctx.drawImage(
-          img,
-          sourceX, sourceY, sourceSize, sourceSize,  // source rectangle (crop from image)
-          0, 0, targetSize, targetSize               // destination rectangle (720x720)
-        );
-
-        // convert to blob with high quality
-        canvas.toBlob(
-          (blob) => {
-            URL.revokeObjectURL(objectUrl);
-            if (!blob) {
-              captureInProgressRef.current = false; // Reset flag if blob creation fails
-              return;
-            }
-            const fileName = `${isbn}_${Date.now()}.jpg`;
-            onCapture?.(isbn, fileName, blob);
-            captureInProgressRef.current = false; // Reset flag after successful capture
-          },
-          "image/jpeg",
-          0.95  // Higher quality (0.95 instead of 0.9)
-        );
-      };
-      
-      img.onerror = () => {
-        URL.revokeObjectURL(objectUrl);
-        setError("Failed to load image");
-        captureInProgressRef.current = false; // Reset flag on image load error
-      };
-      
-      img.src = objectUrl;
+      const image = await processImage(file);
+      const fileName = `${fileNameCode(barcode)}_${Date.now()}.${imageExtension(image.type)}`;
+      onCapture?.(barcode.value, fileName, image.blob, barcode);
+      resumeRapidScan();
     } catch (e) {
       setError(String(e));
-      captureInProgressRef.current = false; // Reset flag on error
+      logger.error("Failed to process captured photo", e);
     } finally {
-      // Reset input so same file can be selected again
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
+      captureInProgressRef.current = false;
     }
   };
 
@@ -586,10 +560,31 @@ export default function BarcodeReader({
           <div className="flex gap-2 items-center w-full md:w-auto">
             <button
               className="px-3 py-2 bg-green-500 text-white rounded flex-1 md:flex-none"
-              onClick={startScanner}
+              onClick={() => startScanner()}
             >
               Barcode Reader
             </button>
+            {onScan && (
+              <button
+                className="px-3 py-2 bg-blue-600 text-white rounded flex-1 md:flex-none"
+                onClick={() => {
+                  setLastScanned(null);
+                  setRapidCount(0);
+                  lastRapidScanRef.current = null;
+                  startScanner(true);
+                }}
+              >
+                Rapid Scan
+              </button>
+            )}
+            {onCapture && (
+              <button
+                className="px-3 py-2 bg-gray-600 text-white rounded flex-1 md:flex-none"
+                onClick={() => setManualOpen((open) => !open)}
+              >
+                Enter Code
+              </button>
+            )}
             {additionalButtons && (
               <div className="flex-1 md:flex-none">
                 {additionalButtons}
@@ -604,6 +599,18 @@ export default function BarcodeReader({
         </div>
       )}
 
+      {manualOpen && !scanning && (
+        <ManualCodeEntry
+          acceptedFormats={acceptedFormats}
+          onCapture={(barcode) => {
+            setManualOpen(false);
+            captureFor(barcode);
+          }}
+          onAdd={onScan}
+          onCancel={() => setManualOpen(false)}
+        />
+      )}
+
       {/* Scanner container - always present, visibility controlled by scanning state */}
       <div 
         className={scanning && isMobile ? "fixed inset-0 z-[9999] bg-black" : scanning ? "relative bg-black rounded-lg overflow-hidden w-full z-10" : "hidden"}
@@ -613,10 +620,25 @@ export default function BarcodeReader({
           <div className={isMobile ? "absolute top-4 left-4 right-4 z-10 flex justify-between items-center" : "absolute top-4 left-4 z-10"}>
             <button
               className={isMobile ? "px-4 py-2 bg-red-500 text-white rounded-lg shadow-lg" : "px-3 py-2 bg-red-500 text-white rounded"}
-              onClick={stopScanner}
+              onClick={() => {
+                resumeRapidRef.current = false;
+                stopScanner();
+              }}
             >
-              Stop
+              {rapid ? "Done" : "Stop"}
             </button>
+            {/* Barcode unreadable - stop scanning and type the number instead */}
+            {onCapture && (
+              <button
+                className={isMobile ? "px-4 py-2 bg-gray-600 text-white rounded-lg shadow-lg" : "ml-2 px-3 py-2 bg-gray-600 text-white rounded"}
+                onClick={() => {
+                  resumeRapidRef.current = false;
+                  stopScanner().then(() => setManualOpen(true));
+                }}
+              >
+                Type Code
+              </button>
+            )}
             {rightContent && isMobile && (
               <div className="flex items-center text-white">
                 {rightContent}
@@ -625,18 +647,46 @@ export default function BarcodeReader({
           </div>
         )}
         
-        {/* ISBN Display - show detected ISBN above the scanning box */}
-        {scanning && detectedIsbn && (
+        {/* Rapid scan - last added code, running count and optional photo */}
+        {scanning && rapid && (
+          <div className={isMobile ? "fixed bottom-4 left-4 right-4 z-[10000]" : "absolute bottom-4 left-4 right-4 z-[10000]"}>
+            <div className="bg-black bg-opacity-75 rounded-lg px-4 py-3 shadow-2xl flex items-center gap-3">
+              <div className="flex-1 min-w-0 text-white">
+                <p className="text-xs">
+                  {lastScanned
+                    ? `Added ${getDecoder(lastScanned.symbology)?.label ?? "barcode"} · ${rapidCount} scanned`
+                    : "Scan items one after another"}
+                </p>
+                {lastScanned && (
+                  <h3 className="text-lg font-bold break-all">{lastScanned.value}</h3>
+                )}
+              </div>
+              {lastScanned && (
+                <button
+                  className="px-4 py-3 bg-green-500 text-white rounded-lg font-semibold hover:bg-green-600 transition-colors"
+                  onClick={() => captureFor(lastScanned)}
+                >
+                  Photo
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Barcode Display - show detected code above the scanning box */}
+        {scanning && !rapid && detected && (
           <div className={isMobile ? "fixed top-1/2 left-1/2 transform -translate-x-1/2 z-[10000] -mt-[250px]" : "absolute top-1/2 left-1/2 transform -translate-x-1/2 z-[10000] -mt-[250px]"}>
             <div className="bg-black bg-opacity-75 rounded-lg px-6 py-3 shadow-2xl absolute top-10 left-1/2 transform -translate-x-1/2">
-              <p className="text-xs text-white mb-1 text-center">Detected ISBN:</p>
-              <h3 className="text-xl font-bold text-white text-center">{detectedIsbn}</h3>
+              <p className="text-xs text-white mb-1 text-center">
+                Detected {getDecoder(detected.symbology)?.label ?? "barcode"}:
+              </p>
+              <h3 className="text-xl font-bold text-white text-center break-all">{detected.value}</h3>
             </div>
           </div>
         )}
         
         {/* Capture Buttons - at the bottom of the screen */}
-        {scanning && detectedIsbn && (
+        {scanning && !rapid && detected && onCapture && (
           <div className={isMobile ? "fixed bottom-4 left-4 right-4 z-[10000]" : "absolute bottom-4 left-4 right-4 z-[10000]"}>
             <div className="flex gap-3 justify-center">
               <button
@@ -652,7 +702,7 @@ export default function BarcodeReader({
               <button
                 className="px-6 py-4 bg-gray-600 text-white rounded-lg font-semibold text-lg hover:bg-gray-700 transition-colors shadow-lg"
                 onClick={() => {
-                  setDetectedIsbn(null);
+                  setDetected(null);
                 }}
               >
                 Cancel
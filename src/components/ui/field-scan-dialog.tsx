@@ -0,0 +1,47 @@
+import { useRef, useState } from "react";
+import BarcodeReader from "@/components/ui/barcode-reader";
+import {
+  DOCUMENT_FIELD_LABELS,
+  DOCUMENT_FORMATS,
+  readDocumentField,
+  type DocumentField,
+} from "@/lib/document-barcodes";
+
+type FieldScanDialogProps = {
+  field: DocumentField;
+  onResult: (value: string) => void;
+  onClose: () => void;
+};
+
+/** Scan a barcode on the returns paperwork into one form field */
+export default function FieldScanDialog({ field, onResult, onClose }: FieldScanDialogProps) {
+  const [message, setMessage] = useState<string | null>(null);
+  const doneRef = useRef(false);
+
+  const handleDecode = (text: string) => {
+    // The scanner keeps reporting frames until the dialog closes
+    if (doneRef.current) return;
+    const result = readDocumentField(text, field);
+    if (!result.valid || !result.sanitized) {
+      setMessage(`Read "${text}" - ${result.error ?? "not a valid value"}`);
+      return;
+    }
+    doneRef.current = true;
+    onResult(result.sanitized);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-75 flex items-center justify-center md:block">
+      <div className="bg-white rounded-lg p-4 md:p-6 max-w-2xl w-full mx-4 md:mx-auto md:mt-8">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold">Scan {DOCUMENT_FIELD_LABELS[field]}</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 text-2xl">
+            ×
+          </button>
+        </div>
+        <BarcodeReader acceptedFormats={DOCUMENT_FORMATS} onDecode={handleDecode} autoStart />
+        {message && <p className="mt-3 text-sm text-red-600 break-all">{message}</p>}
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "./textarea";
@@ -6,12 +6,29 @@ import {
   insertReturnData,
   insertOverstockData,
   insertDamagesData,
+  rollbackUploads,
   type FormData as FormDataType,
   type UploadResult,
 } from "@/components/ui/upload";
 import { validateAccountNumber, validateInvoiceNumber, validateRNumber, sanitizeTextInput } from "@/lib/validation";
 import { logger, sanitizeErrorMessage } from "@/lib/logger";
+import {
+  loadDraft,
+  saveDraft,
+  clearDraft,
+  enqueueSubmission,
+  type DraftImage,
+  type SubmissionKind,
+} from "@/lib/offline-queue";
+import type { DraftLineItem } from "@/lib/line-items";
 import { toast } from "sonner";
+import { useScannerGun } from "@/hooks/use-scanner-gun";
+import FieldScanDialog from "@/components/ui/field-scan-dialog";
+import { DOCUMENT_FIELD_LABELS, type DocumentField } from "@/lib/document-barcodes";
+import { ScanBarcode } from "lucide-react";
+
+// Fields a scanner gun can fill - the scan replaces the focused field
+const SCANNABLE_FIELDS = ["creditNumber", "rNumber", "accNumber"];
 
 export type FormDataProps = {
   onSubmit?: (formData: FormDataType, urls: string[]) => Promise<void>; // Pass upload results
@@ -19,9 +36,12 @@ export type FormDataProps = {
   isOverstock?: boolean; // Flag to determine if this is for overstock
   isDamages?: boolean; // Flag to determine if this is for damages (no R number field)
   onInvoiceNumberChange?: (invoiceNumber: string) => void; // Callback for invoice number changes
+  onAccountNumberChange?: (accountNumber: string) => void; // Callback for account number changes
   onUploadAllUnuploaded?: () => Promise<UploadResult[]>; // Function to upload all unuploaded images
   onClearImages?: () => void; // Callback to clear images after successful submission
   onUnmarkUploaded?: (itemIds: string[]) => void; // Callback to unmark images as uploaded on error
+  onGetUnuploadedItems?: () => DraftImage[]; // Images not yet uploaded, queued when submitting offline
+  onGetLineItems?: () => DraftLineItem[]; // Scanned line items saved with the return
 };
 
 export default function FormData({
@@ -30,9 +50,12 @@ export default function FormData({
   isOverstock = false,
   isDamages = false,
   onInvoiceNumberChange,
+  onAccountNumberChange,
   onUploadAllUnuploaded,
   onClearImages,
   onUnmarkUploaded,
+  onGetUnuploadedItems,
+  onGetLineItems,
 }: FormDataProps) {
   const [formData, setFormData] = useState<FormDataType>({
     creditNumber: "",
@@ -41,6 +64,15 @@ export default function FormData({
     reason: "",
   });
   const [loading, setLoading] = useState(false);
+  const formRef = useRef<HTMLFormElement | null>(null);
+  // Kept across retries of the same submission so saved line items aren't added twice
+  const submissionIdRef = useRef<string | null>(null);
+  const [scanField, setScanField] = useState<DocumentField | null>(null);
+
+  // Standard customer returns are the mode used when neither flag is set
+  const isReturns = !isOverstock && !isDamages;
+  const offlineKind: SubmissionKind = isDamages ? "damages" : isOverstock ? "overstock" : "returns";
+  const draftKey = `${offlineKind}-form`;
 
   // Reset form when switching between damages/overstock/returns
   useEffect(() => {
@@ -52,76 +84,158 @@ export default function FormData({
     });
   }, [isDamages, isOverstock]);
 
-  const handleChange = (
-    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
-  ) => {
-    const { name, value } = e.target;
+  // Restore fields typed before a reload or lost connection
+  useEffect(() => {
+    let mounted = true;
+    loadDraft<FormDataType>(draftKey)
+      .then((draft) => {
+        if (!mounted || !draft) return;
+        setFormData(draft);
+        if (draft.creditNumber) {
+          onInvoiceNumberChange?.(draft.creditNumber);
+        }
+        if (draft.accNumber) {
+          onAccountNumberChange?.(draft.accNumber);
+        }
+      })
+      .catch((error) => {
+        logger.log("Could not restore form draft:", error);
+      });
+    return () => {
+      mounted = false;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [draftKey]);
+
+  const resetForm = () => {
+    setFormData({
+      creditNumber: "",
+      rNumber: "",
+      accNumber: "",
+      reason: "",
+    });
+    submissionIdRef.current = null;
+    clearDraft(draftKey).catch((error) => {
+      logger.log("Could not clear form draft:", error);
+    });
+  };
+
+  const shouldQueueOffline = () => !!onGetUnuploadedItems && !navigator.onLine;
+
+  // Save the submission to IndexedDB so the sync worker can replay it once back online
+  const queueOfflineSubmission = async (alreadyUploaded: UploadResult[]) => {
+    const items = onGetUnuploadedItems?.() ?? [];
+    const uploaded = alreadyUploaded.filter((r) => !r.error && r.publicUrl);
+    const lineItems = onGetLineItems?.() ?? [];
+    if (items.length === 0 && uploaded.length === 0 && lineItems.length === 0) {
+      toast.error("Please capture an image or scan an item before submitting");
+      return;
+    }
+
+    await enqueueSubmission({
+      kind: offlineKind,
+      invoiceNumber: formData.creditNumber,
+      accountNumber: formData.accNumber,
+      returnsNumber: formData.rNumber,
+      reason: formData.reason,
+      items,
+      uploadResults: uploaded,
+      lineItems,
+      submissionId: submissionIdRef.current ?? undefined,
+    });
+    toast.info("You're offline. Submission saved and will sync when the connection returns.");
+    resetForm();
+    onClearImages?.();
+  };
+
+  const updateField = (name: string, value: string) => {
     let processedValue = value;
     
-    // Apply formatting for overstock/damages
-    if (isOverstock || isDamages) {
-      if (name === "accNumber") {
-        // Account number: force uppercase, enforce 3 letters then 3 numbers pattern
-        const upper = value.toUpperCase().replace(/[^A-Z0-9]/g, '');
-        let letters = '';
-        let numbers = '';
-        
-        // Separate letters and numbers
-        for (const char of upper) {
-          if (/[A-Z]/.test(char) && letters.length < 3) {
-            letters += char;
-          } else if (/[0-9]/.test(char) && numbers.length < 3) {
-            numbers += char;
-          }
+    // Apply formatting (all capture modes use the strict formats)
+    if (name === "accNumber") {
+      // Account number: force uppercase, enforce 3 letters then 3 numbers pattern
+      const upper = value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+      let letters = '';
+      let numbers = '';
+      
+      // Separate letters and numbers
+      for (const char of upper) {
+        if (/[A-Z]/.test(char) && letters.length < 3) {
+          letters += char;
+        } else if (/[0-9]/.test(char) && numbers.length < 3) {
+          numbers += char;
         }
-        
-        // Combine: letters first, then numbers
-        processedValue = letters + numbers;
-      } else if (name === "creditNumber") {
-        // Invoice number: only digits, limit to 8
-        processedValue = value.replace(/\D/g, '').slice(0, 8);
-      } else if (name === "rNumber" && isOverstock) {
-        // R number: only digits, limit to 8
-        processedValue = value.replace(/\D/g, '').slice(0, 8);
       }
+      
+      // Combine: letters first, then numbers
+      processedValue = letters + numbers;
+    } else if (name === "creditNumber") {
+      // Invoice number: only digits, limit to 8
+      processedValue = value.replace(/\D/g, '').slice(0, 8);
+    } else if (name === "rNumber" && !isDamages) {
+      // R number: only digits, limit to 8
+      processedValue = value.replace(/\D/g, '').slice(0, 8);
     }
     
-    setFormData((prev) => ({ ...prev, [name]: processedValue }));
-    // Notify parent of invoice number changes for overstock or damages
-    if ((isOverstock || isDamages) && name === "creditNumber" && onInvoiceNumberChange) {
+    const next = { ...formData, [name]: processedValue };
+    setFormData(next);
+    saveDraft(draftKey, next).catch((error) => {
+      logger.log("Could not save form draft:", error);
+    });
+    // Notify parent of invoice number changes
+    if (name === "creditNumber" && onInvoiceNumberChange) {
       onInvoiceNumberChange(processedValue);
     }
+    if (name === "accNumber" && onAccountNumberChange) {
+      onAccountNumberChange(processedValue);
+    }
   };
 
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+  ) => {
+    updateField(e.target.name, e.target.value);
+  };
+
+  useScannerGun((value, target) => {
+    if (!(target instanceof HTMLInputElement) || !formRef.current?.contains(target)) return;
+    if (!SCANNABLE_FIELDS.includes(target.name)) return;
+    updateField(target.name, value);
+  });
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     // Validate inputs - R number only required if not damages
     if (!isDamages) {
-      const rNumberValidation = validateRNumber(formData.rNumber, isOverstock);
+      const rNumberValidation = validateRNumber(formData.rNumber, true);
       if (!rNumberValidation.valid) {
         toast.error(rNumberValidation.error || "Invalid R number");
         return;
       }
     }
 
-    const accNumberValidation = validateAccountNumber(formData.accNumber, isOverstock || isDamages);
+    const accNumberValidation = validateAccountNumber(formData.accNumber, true);
     if (!accNumberValidation.valid) {
       toast.error(accNumberValidation.error || "Invalid account number");
       return;
     }
 
-    // For overstock or damages, require creditNumber (invoice number)
-    if (isOverstock || isDamages) {
-      if (!formData.creditNumber) {
-        toast.error("Please enter an invoice number (Credit Number)");
-        return;
-      }
-      const invoiceValidation = validateInvoiceNumber(formData.creditNumber, true);
-      if (!invoiceValidation.valid) {
-        toast.error(invoiceValidation.error || "Invalid invoice number");
-        return;
-      }
+    // Require creditNumber (invoice number)
+    if (!formData.creditNumber) {
+      toast.error("Please enter an invoice number (Credit Number)");
+      return;
+    }
+    const invoiceValidation = validateInvoiceNumber(formData.creditNumber, true);
+    if (!invoiceValidation.valid) {
+      toast.error(invoiceValidation.error || "Invalid invoice number");
+      return;
+    }
+
+    // Customer returns must say why the customer sent the item back
+    if (isReturns && formData.reason.trim() === "") {
+      toast.error("Please enter the customer's reason for the return");
+      return;
     }
 
     // Validate reason if provided
@@ -134,11 +248,19 @@ export default function FormData({
     }
 
     setLoading(true);
+    submissionIdRef.current ??= crypto.randomUUID();
+    const submissionId = submissionIdRef.current;
     let finalUploadResults = uploadResults;
     try {
+      // No connection - queue the submission instead of attempting the upload
+      if (shouldQueueOffline()) {
+        await queueOfflineSubmission(finalUploadResults);
+        setLoading(false);
+        return;
+      }
 
-      // For overstock or damages, upload all unuploaded images first if function is provided
-      if ((isOverstock || isDamages) && onUploadAllUnuploaded) {
+      // Upload all unuploaded images first if function is provided
+      if (onUploadAllUnuploaded) {
         try {
           const newResults = await onUploadAllUnuploaded();
           finalUploadResults = newResults;
@@ -150,12 +272,20 @@ export default function FormData({
         }
       }
 
+      // Connection dropped during upload - queue whatever is left
+      if (shouldQueueOffline()) {
+        await queueOfflineSubmission(finalUploadResults);
+        setLoading(false);
+        return;
+      }
+
       // Check if there are any successful uploads
       const successfulUploads = finalUploadResults.filter(
         (r) => !r.error && r.publicUrl
       );
-      if ((isOverstock || isDamages) && successfulUploads.length === 0) {
-        toast.error("Please capture at least one image before submitting");
+      const lineItems = onGetLineItems?.() ?? [];
+      if (successfulUploads.length === 0 && lineItems.length === 0) {
+        toast.error("Please capture an image or scan an item before submitting");
         setLoading(false);
         return;
       }
@@ -166,16 +296,13 @@ export default function FormData({
           formData.creditNumber, // invoice number
           formData.accNumber, // account number
           finalUploadResults,
-          formData.reason // reason -> warehouse_notes
+          formData.reason, // reason -> warehouse_notes
+          lineItems,
+          submissionId
         );
         toast.success("Damages data submitted successfully!");
         // Reset form after successful submission
-        setFormData({
-          creditNumber: "",
-          rNumber: "",
-          accNumber: "",
-          reason: "",
-        });
+        resetForm();
         // Clear images after successful submission
         onClearImages?.();
       } else if (isOverstock) {
@@ -185,29 +312,21 @@ export default function FormData({
           formData.accNumber, // account number
           formData.rNumber, // returns number
           finalUploadResults,
-          formData.reason // reason -> warehouse_notes
+          formData.reason, // reason -> warehouse_notes
+          lineItems,
+          submissionId
         );
         toast.success("Overstock data submitted successfully!");
         // Reset form after successful submission
-        setFormData({
-          creditNumber: "",
-          rNumber: "",
-          accNumber: "",
-          reason: "",
-        });
+        resetForm();
         // Clear images after successful submission
         onClearImages?.();
       } else {
-        // For returns: use existing logic
-        await insertReturnData(formData, finalUploadResults);
+        // For customer returns: R number and reason are required
+        await insertReturnData(formData, finalUploadResults, lineItems, submissionId);
         toast.success("Return data submitted successfully!");
         // Reset form after successful submission
-        setFormData({
-          creditNumber: "",
-          rNumber: "",
-          accNumber: "",
-          reason: "",
-        });
+        resetForm();
         // Clear images after successful submission
         onClearImages?.();
       }
@@ -219,74 +338,112 @@ export default function FormData({
         await onSubmit(formData, urls);
       }
     } catch (error) {
+      // Connection dropped while saving - keep the uploaded images and queue the rest
+      if (shouldQueueOffline()) {
+        try {
+          await queueOfflineSubmission(finalUploadResults);
+          setLoading(false);
+          return;
+        } catch (queueError) {
+          logger.log("Could not queue submission offline:", queueError);
+        }
+      }
+
       logger.error("Submission error:", error);
       const errorMessage = sanitizeErrorMessage(error);
       toast.error("Error submitting data:", {
         description: errorMessage,
       });
       
-      // Unmark images as uploaded since the submission failed
-      if (onUnmarkUploaded && finalUploadResults) {
-        const uploadedItemIds = finalUploadResults
-          .filter((r: UploadResult) => !r.error && r.itemId)
+      // Delete the files uploaded for this submission and unmark them, so a retry uploads them again.
+      // Files that couldn't be deleted stay marked as uploaded and are reused by the retry instead
+      try {
+        const rolledBack = await rollbackUploads(formData.creditNumber, finalUploadResults);
+        const rolledBackIds = rolledBack
+          .filter((r: UploadResult) => r.itemId)
           .map((r: UploadResult) => r.itemId!);
-        if (uploadedItemIds.length > 0) {
-          onUnmarkUploaded(uploadedItemIds);
+        if (onUnmarkUploaded && rolledBackIds.length > 0) {
+          onUnmarkUploaded(rolledBackIds);
         }
+      } catch (rollbackError) {
+        logger.log("Could not roll back uploaded files:", rollbackError);
       }
     }
     setLoading(false);
   };
 
+  // Camera button next to a number field - scans the barcode on the paperwork into it
+  const scanButton = (field: DocumentField) => (
+    <Button
+      type="button"
+      variant="outline"
+      size="icon"
+      onClick={() => setScanField(field)}
+      aria-label={`Scan ${DOCUMENT_FIELD_LABELS[field]}`}
+    >
+      <ScanBarcode className="h-4 w-4" />
+    </Button>
+  );
+
   // Determine if R number field should be shown (only hide for damages)
 
   return (
+    <>
     <form
+      ref={formRef}
       onSubmit={handleSubmit}
       className="bg-neutral-50 shadow-md p-4 sm:p-6 rounded-lg flex flex-col gap-4"
       key={`form-${isDamages ? 'damages' : isOverstock ? 'overstock' : 'returns'}`}
     >
       <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
         <div className="flex flex-col gap-2">
-        <Input
-          name="accNumber"
-          placeholder={isOverstock || isDamages ? "Acc Number (eg. ABC123)" : "Acc Number (eg. RRR001)"}
-          required
-          value={formData.accNumber}
-          onChange={handleChange}
-          maxLength={isOverstock || isDamages ? 6 : undefined}
-          style={isOverstock || isDamages ? { textTransform: 'uppercase' } : undefined}
-        />
-        {isDamages === false ? (
+        <div className="flex gap-2">
           <Input
-            name="rNumber"
-            placeholder={isOverstock ? "R Number (8 digits, eg. 56012322)" : "R Number (eg. 56012322)"}
-            required={isDamages === false}
-            value={formData.rNumber}
+            name="accNumber"
+            placeholder="Acc Number (eg. ABC123)"
+            required
+            value={formData.accNumber}
             onChange={handleChange}
-            maxLength={isOverstock ? 8 : undefined}
-            type={isOverstock ? "tel" : "text"}
+            maxLength={6}
+            style={{ textTransform: 'uppercase' }}
           />
+          {scanButton("accNumber")}
+        </div>
+        {isDamages === false ? (
+          <div className="flex gap-2">
+            <Input
+              name="rNumber"
+              placeholder="R Number (8 digits, eg. 56012322)"
+              required={isDamages === false}
+              value={formData.rNumber}
+              onChange={handleChange}
+              maxLength={8}
+              type="tel"
+            />
+            {scanButton("rNumber")}
+          </div>
         ) : null}
-        <Input
-          name="creditNumber"
-          placeholder={
-            isOverstock || isDamages ? "Invoice Number (8 digits, eg. 21000000)" : "Invoice Number (eg. 21000000)"
-          }
-          value={formData.creditNumber}
-          onChange={handleChange}
-          required={isOverstock || isDamages}
-          maxLength={isOverstock || isDamages ? 8 : undefined}
-          type={isOverstock || isDamages ? "tel" : "text"}
-        />
+        <div className="flex gap-2">
+          <Input
+            name="creditNumber"
+            placeholder="Invoice Number (8 digits, eg. 21000000)"
+            value={formData.creditNumber}
+            onChange={handleChange}
+            required
+            maxLength={8}
+            type="tel"
+          />
+          {scanButton("creditNumber")}
+        </div>
         </div>
         <div className="flex flex-col gap-2">
         <Textarea
           name="reason"
-          placeholder="Reason for return"
+          placeholder={isReturns ? "Customer's reason for return (required)" : "Reason for return"}
           rows={3}
           value={formData.reason}
           onChange={handleChange}
+          required={isReturns}
         />
         </div>
       </div>
@@ -294,5 +451,18 @@ export default function FormData({
         {loading ? "Uploading & Submitting..." : "Submit"}
       </Button>
     </form>
+    {/* Outside the form so the scanner's buttons don't submit it */}
+    {scanField && (
+      <FieldScanDialog
+        field={scanField}
+        onResult={(value) => {
+          updateField(scanField, value);
+          setScanField(null);
+          toast.success(`Scanned ${DOCUMENT_FIELD_LABELS[scanField]} ${value}`);
+        }}
+        onClose={() => setScanField(null)}
+      />
+    )}
+    </>
   );
 }
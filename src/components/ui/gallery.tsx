@@ -5,21 +5,30 @@ import {
   ItemGroup,
   ItemHeader,
 } from "@/components/ui/item";
-import { X } from "lucide-react";
+import { Pencil, X } from "lucide-react";
+import { getDecoder, type Symbology } from "@/lib/barcode-decoders";
+import type { Annotation } from "@/lib/annotations";
 
 export type GalleryItem = {
   id: string;
-  isbn: string;
+  isbn: string; // Scanned code - an ISBN unless symbology says otherwise
+  symbology?: Symbology;
+  addOn?: string; // EAN supplement printed next to the ISBN, if any
+  originalCode?: string; // Code as scanned when it differs from isbn (e.g. an ISBN-10)
   fileName: string;
-  blob: Blob;
+  blob: Blob; // With any annotations flattened in
+  originalBlob?: Blob; // Unannotated photo, set once the image has been annotated
+  annotations?: Annotation[];
   preview: string; // object URL
   uploading?: boolean;
   uploaded?: boolean;
+  progress?: number; // Fraction of bytes sent while uploading, 0-1
 };
 
 type GalleryProps = {
   items: GalleryItem[];
   onRemove: (id: string) => void;
+  onAnnotate?: (id: string) => void;
 };
 
 // Helper function to format file size
@@ -36,6 +45,7 @@ function formatFileSize(bytes: number): string {
 export default function Gallery({
   items,
   onRemove,
+  onAnnotate,
 }: GalleryProps) {
   return (
     <div className="space-y-3">
@@ -60,7 +70,7 @@ export default function Gallery({
             </ItemHeader>
             <ItemContent className="text-center flex-1 flex flex-col items-center text-wrap justify-center w-24">
               <ItemDescription className="text-muted-foreground text-xs text-center">
-                ISBN: {item.isbn}
+                {getDecoder(item.symbology ?? "isbn")?.label}: {item.isbn}
               </ItemDescription>
               <ItemDescription className="text-muted-foreground text-xs text-center">
                 Size: {formatFileSize(item.blob.size)}
@@ -70,10 +80,32 @@ export default function Gallery({
                 {item.uploaded
                   ? "Uploaded"
                   : item.uploading
-                  ? "Uploading..."
+                  ? `Uploading... ${Math.round((item.progress ?? 0) * 100)}%`
                   : "Pending"}
               </ItemDescription>
+              {item.uploading && (
+                <div className="w-full h-1.5 rounded-full bg-gray-200 overflow-hidden">
+                  <div
+                    className="h-full bg-green-500 transition-[width]"
+                    style={{ width: `${Math.round((item.progress ?? 0) * 100)}%` }}
+                  />
+                </div>
+              )}
+              {item.annotations && item.annotations.length > 0 && (
+                <ItemDescription className="text-xs text-center text-red-600">
+                  Annotated
+                </ItemDescription>
+              )}
             </ItemContent>
+            {onAnnotate && !item.uploaded && !item.uploading && item.blob.size > 0 && (
+              <button
+                onClick={() => onAnnotate(item.id)}
+                className="absolute top-2 left-2 p-1 rounded-full bg-black/50 hover:bg-black/70 text-white transition-colors z-10"
+                aria-label="Mark damage"
+              >
+                <Pencil className="h-4 w-4" />
+              </button>
+            )}
             <button
               onClick={() => onRemove(item.id)}
               className="absolute top-2 right-2 p-1 rounded-full bg-black/50 hover:bg-black/70 text-white transition-colors z-10"
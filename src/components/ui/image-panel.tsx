@@ -1,37 +1,178 @@
 import { useCallback, useState, useEffect, useRef } from "react";
 import BarcodeReader from "@/components/ui/barcode-reader";
 import Gallery, { type GalleryItem } from "@/components/ui/gallery";
+import ScanList from "@/components/ui/scan-list";
+import AnnotationEditor from "@/components/ui/annotation-editor";
+import PhotoImportDialog, { type ImportedGalleryPhoto } from "@/components/ui/photo-import-dialog";
 import { uploadGalleryItems, type UploadResult } from "@/components/ui/upload";
 import notAuthImage from "@/assets/not-auth.png";
+import { loadDraft, saveDraft, clearDraft, type DraftImage } from "@/lib/offline-queue";
+import { logger } from "@/lib/logger";
+import { DEFAULT_ACCEPTED_FORMATS, decodeBarcode, getDecoder, type DecodedBarcode, type Symbology } from "@/lib/barcode-decoders";
+import { lineItemKey, type DraftLineItem } from "@/lib/line-items";
+import { flattenAnnotations, type Annotation } from "@/lib/annotations";
+import { isEditableElement } from "@/lib/scanner-gun";
+import { useScannerGun } from "@/hooks/use-scanner-gun";
+import { toast } from "sonner";
 
 export type ImagePanelProps = {
   onUploadResultsChange?: (results: UploadResult[]) => void;
   invoiceNumber?: string; // Optional invoice number for folder organization
+  accountNumber?: string; // Optional account number, the top-level folder in the invoice layout
   onUploadAllUnuploadedReady?: (uploadFn: () => Promise<UploadResult[]>) => void; // Expose upload function
   onClearGalleryReady?: (clearFn: () => void) => void; // Expose clear gallery function
   onUnmarkUploadedReady?: (unmarkFn: (itemIds: string[]) => void) => void; // Expose unmark uploaded function
+  onGetUnuploadedItemsReady?: (getFn: () => DraftImage[]) => void; // Expose unuploaded images for the offline queue
+  onGetLineItemsReady?: (getFn: () => DraftLineItem[]) => void; // Expose the scanned line items
   isOverstock?: boolean; // If true, restrict "Not Auth" button to one press
   isDamages?: boolean; // If true, restrict "Not Auth" button to one press
+  acceptedFormats?: Symbology[]; // Barcode types the scanner accepts (defaults to ISBN only)
 };
 
+/** Draft copy of a gallery item - uploaded ones keep their stored result so a restore doesn't upload them again */
+function toDraftImage(item: GalleryItem & { assetUrl?: string }, uploadResult?: UploadResult): DraftImage {
+  const uploaded = !!item.uploaded && !!uploadResult && !uploadResult.error;
+  return {
+    id: item.id,
+    isbn: item.isbn,
+    symbology: item.symbology,
+    addOn: item.addOn,
+    originalCode: item.originalCode,
+    fileName: item.fileName,
+    blob: item.blob,
+    originalBlob: item.originalBlob,
+    annotations: item.annotations,
+    assetUrl: item.assetUrl,
+    uploaded,
+    uploadResult: uploaded ? uploadResult : undefined,
+  };
+}
+
+function newLineItem(barcode: DecodedBarcode): DraftLineItem {
+  return {
+    code: barcode.value,
+    symbology: barcode.symbology,
+    addOn: barcode.addOn,
+    // Keep the scanned form when it was normalised (e.g. ISBN-10 -> ISBN-13)
+    originalCode: barcode.raw.trim() !== barcode.value ? barcode.raw.trim() : undefined,
+    quantity: 1,
+    photoIds: [],
+  };
+}
+
 export default function ImagePanel({ 
   onUploadResultsChange, 
   invoiceNumber,
+  accountNumber,
   onUploadAllUnuploadedReady,
   onClearGalleryReady,
   onUnmarkUploadedReady,
+  onGetUnuploadedItemsReady,
+  onGetLineItemsReady,
   isOverstock = false,
-  isDamages = false
+  isDamages = false,
+  acceptedFormats,
 }: ImagePanelProps) {
   const [gallery, setGallery] = useState<GalleryItem[]>([]);
   const [uploadResults, setUploadResults] = useState<UploadResult[]>([]);
   const [notAuthPressed, setNotAuthPressed] = useState(false);
+  const [lineItems, setLineItems] = useState<DraftLineItem[]>([]);
+  const [annotatingId, setAnnotatingId] = useState<string | null>(null);
+  const [importFiles, setImportFiles] = useState<File[] | null>(null);
+  const [dragging, setDragging] = useState(false);
   const galleryRef = useRef<GalleryItem[]>([]);
   const uploadResultsRef = useRef<UploadResult[]>([]);
+  const draftLoadedRef = useRef(false);
+  const lineItemsRef = useRef<DraftLineItem[]>([]);
+  const lineItemsLoadedRef = useRef(false);
+  const captureForRef = useRef<((barcode: DecodedBarcode) => void) | null>(null);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const importInputRef = useRef<HTMLInputElement | null>(null);
   
   // Check if "Not Auth" button should be restricted (overstock or damages)
   const restrictNotAuth = isOverstock || isDamages;
 
+  // Captured images are persisted per page so they survive a reload or lost connection
+  const draftPrefix = isDamages ? "damages" : isOverstock ? "overstock" : "returns";
+  const draftKey = `${draftPrefix}-gallery`;
+  const lineItemsKey = `${draftPrefix}-line-items`;
+
+  // Restore captured images from the previous session
+  useEffect(() => {
+    let mounted = true;
+    draftLoadedRef.current = false;
+    loadDraft<DraftImage[]>(draftKey)
+      .then((draft) => {
+        if (!mounted || !draft || draft.length === 0) return;
+        const restored: Array<GalleryItem & { assetUrl?: string }> = draft.map(({ uploadResult, ...image }) => ({
+          ...image,
+          // Not Auth placeholder keeps using the bundled asset for its preview
+          preview: image.assetUrl ? notAuthImage : URL.createObjectURL(image.blob),
+          assetUrl: image.assetUrl ? notAuthImage : undefined,
+          uploaded: !!image.uploaded && !!uploadResult,
+          uploading: false,
+        }));
+        // Photos that already reached storage are submitted with their stored paths
+        const restoredResults = draft.flatMap((image) =>
+          image.uploaded && image.uploadResult ? [image.uploadResult] : []
+        );
+        setGallery((s) => {
+          const newGallery = [...s, ...restored];
+          galleryRef.current = newGallery;
+          return newGallery;
+        });
+        if (restoredResults.length > 0) {
+          const allResults = [...uploadResultsRef.current, ...restoredResults];
+          uploadResultsRef.current = allResults;
+          setUploadResults(allResults);
+          onUploadResultsChange?.(allResults);
+        }
+        if (restrictNotAuth && restored.some((item) => item.assetUrl)) {
+          setNotAuthPressed(true);
+        }
+      })
+      .catch((error) => {
+        logger.log("Could not restore captured images:", error);
+      })
+      .finally(() => {
+        if (mounted) draftLoadedRef.current = true;
+      });
+    return () => {
+      mounted = false;
+    };
+  }, [draftKey, restrictNotAuth, onUploadResultsChange]);
+
+  // Restore line items from the previous session
+  useEffect(() => {
+    let mounted = true;
+    lineItemsLoadedRef.current = false;
+    loadDraft<DraftLineItem[]>(lineItemsKey)
+      .then((draft) => {
+        if (!mounted || !draft || draft.length === 0) return;
+        setLineItems((s) => [...s, ...draft]);
+      })
+      .catch((error) => {
+        logger.log("Could not restore line items:", error);
+      })
+      .finally(() => {
+        if (mounted) lineItemsLoadedRef.current = true;
+      });
+    return () => {
+      mounted = false;
+    };
+  }, [lineItemsKey]);
+
+  useEffect(() => {
+    lineItemsRef.current = lineItems;
+    if (!lineItemsLoadedRef.current) return;
+    const persist = lineItems.length === 0
+      ? clearDraft(lineItemsKey)
+      : saveDraft<DraftLineItem[]>(lineItemsKey, lineItems);
+    persist.catch((error) => {
+      logger.log("Could not persist line items:", error);
+    });
+  }, [lineItems, lineItemsKey]);
+
   // Keep refs in sync with state
   useEffect(() => {
     galleryRef.current = gallery;
@@ -41,8 +182,22 @@ export default function ImagePanel({
     uploadResultsRef.current = uploadResults;
   }, [uploadResults]);
 
+  // Persist captured images whenever the gallery changes (after the draft has been restored)
+  useEffect(() => {
+    if (!draftLoadedRef.current) return;
+    const persist = gallery.length === 0
+      ? clearDraft(draftKey)
+      : saveDraft<DraftImage[]>(
+          draftKey,
+          gallery.map((item) => toDraftImage(item, uploadResults.find((result) => result.itemId === item.id)))
+        );
+    persist.catch((error) => {
+      logger.log("Could not persist captured images:", error);
+    });
+  }, [gallery, uploadResults, draftKey]);
+
   const handleCapture = useCallback(
-    (isbn: string, fileName: string, blob: Blob) => {
+    (isbn: string, fileName: string, blob: Blob, barcode: DecodedBarcode) => {
       // Verify blob is valid before creating preview
       if (!blob || blob.size === 0) {
         console.error("Invalid blob received in handleCapture");
@@ -63,6 +218,10 @@ export default function ImagePanel({
       const item: GalleryItem = {
         id,
         isbn,
+        symbology: barcode.symbology,
+        addOn: barcode.addOn,
+        // Keep the scanned form when it was normalised (e.g. ISBN-10 -> ISBN-13)
+        originalCode: barcode.raw.trim() !== isbn ? barcode.raw.trim() : undefined,
         fileName,
         blob,
         preview,
@@ -77,10 +236,70 @@ export default function ImagePanel({
         galleryRef.current = newGallery;
         return newGallery;
       });
+
+      // Every photographed code is a line item - the photo is attached to its line
+      const key = lineItemKey(isbn, barcode.addOn);
+      setLineItems((s) => {
+        if (s.some((line) => lineItemKey(line.code, line.addOn) === key)) {
+          return s.map((line) =>
+            lineItemKey(line.code, line.addOn) === key ? { ...line, photoIds: [...line.photoIds, id] } : line
+          );
+        }
+        return [{ ...newLineItem(barcode), photoIds: [id], createdByPhotoId: id }, ...s];
+      });
     },
     []
   );
 
+  // Rapid scan - a new code adds a line, scanning the same code again adds one to its quantity
+  const handleScan = useCallback((barcode: DecodedBarcode) => {
+    const key = lineItemKey(barcode.value, barcode.addOn);
+    setLineItems((s) => {
+      const existing = s.find((line) => lineItemKey(line.code, line.addOn) === key);
+      if (existing) {
+        return s.map((line) => (line === existing ? { ...line, quantity: line.quantity + 1 } : line));
+      }
+      return [newLineItem(barcode), ...s];
+    });
+  }, []);
+
+  // Scanner gun - items are queued unless the scan was typed into a field outside this panel (e.g. the invoice number)
+  useScannerGun((value, target) => {
+    if (isEditableElement(target) && !containerRef.current?.contains(target as Node)) return;
+    const barcode = decodeBarcode(value, acceptedFormats ?? DEFAULT_ACCEPTED_FORMATS);
+    if (!barcode) {
+      toast.error(`Unrecognised barcode: ${value}`);
+      return;
+    }
+    handleScan(barcode);
+    toast.success(`Added ${getDecoder(barcode.symbology)?.label ?? "item"} ${barcode.value}`);
+  });
+
+  const handleLineChange = useCallback(
+    (key: string, changes: Partial<Pick<DraftLineItem, "quantity" | "condition" | "damageType">>) => {
+      setLineItems((s) =>
+        s.map((line) => {
+          if (lineItemKey(line.code, line.addOn) !== key) return line;
+          const updated = { ...line, ...changes };
+          return { ...updated, quantity: Math.max(1, updated.quantity) };
+        })
+      );
+    },
+    []
+  );
+
+  const handleRemoveLine = useCallback((key: string) => {
+    setLineItems((s) => s.filter((line) => lineItemKey(line.code, line.addOn) !== key));
+  }, []);
+
+  const handleCaptureRequestReady = useCallback((captureFn: (barcode: DecodedBarcode) => void) => {
+    captureForRef.current = captureFn;
+  }, []);
+
+  const handleLineCapture = useCallback((barcode: DecodedBarcode) => {
+    captureForRef.current?.(barcode);
+  }, []);
+
   const handleAddNotAuth = useCallback(() => {
     // If restricted (overstock/damages) and already pressed, don't allow again
     if (restrictNotAuth && notAuthPressed) {
@@ -139,10 +358,79 @@ export default function ImagePanel({
       
       return newGallery;
     });
-    // Also remove from upload results if present
+    // Also remove from upload results and its line item if present
     setUploadResults((r) => r.filter((res) => res.itemId !== id));
+    setLineItems((s) =>
+      s.flatMap((line) => {
+        if (!line.photoIds.includes(id)) return [line];
+        const photoIds = line.photoIds.filter((p) => p !== id);
+        // A photo taken by mistake takes its line with it, unless the line has other photos or was scanned again
+        if (line.createdByPhotoId === id && photoIds.length === 0 && line.quantity === 1) return [];
+        return [{ ...line, photoIds }];
+      })
+    );
   }, [restrictNotAuth]);
 
+  // Photos taken on another camera go through the same path as a capture once their code is known
+  const handleImport = useCallback(
+    (photos: ImportedGalleryPhoto[]) => {
+      setImportFiles(null);
+      photos.forEach((photo) => handleCapture(photo.barcode.value, photo.fileName, photo.blob, photo.barcode));
+      toast.success(`Imported ${photos.length} ${photos.length === 1 ? "photo" : "photos"}`);
+    },
+    [handleCapture]
+  );
+
+  const handleImportSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    // Reset input so the same files can be selected again
+    event.target.value = "";
+    if (files.length > 0) setImportFiles(files);
+  };
+
+  const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+    if (!event.dataTransfer.types.includes("Files")) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "copy";
+    setDragging(true);
+  };
+
+  const handleDragLeave = (event: React.DragEvent<HTMLDivElement>) => {
+    // Leaving a child element still fires dragleave on the panel
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) setDragging(false);
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragging(false);
+    const files = Array.from(event.dataTransfer.files);
+    if (files.length > 0) setImportFiles(files);
+  };
+
+  // Annotations are always redrawn over the unannotated original, which is kept for upload alongside
+  const handleSaveAnnotations = useCallback(async (id: string, annotations: Annotation[]) => {
+    setAnnotatingId(null);
+    const item = galleryRef.current.find((i) => i.id === id);
+    if (!item) return;
+    const original = item.originalBlob ?? item.blob;
+
+    try {
+      const blob = annotations.length > 0 ? await flattenAnnotations(original, annotations) : original;
+      const preview = URL.createObjectURL(blob);
+      setGallery((s) =>
+        s.map((it) => {
+          if (it.id !== id) return it;
+          if (it.preview.startsWith('blob:')) URL.revokeObjectURL(it.preview);
+          return annotations.length > 0
+            ? { ...it, blob, preview, originalBlob: original, annotations }
+            : { ...it, blob, preview, originalBlob: undefined, annotations: undefined };
+        })
+      );
+    } catch (error) {
+      logger.error("Failed to save annotations:", error);
+    }
+  }, []);
+
   const handleMarkUploaded = useCallback((id: string) => {
     setGallery((s) =>
       s.map((it) =>
@@ -151,17 +439,32 @@ export default function ImagePanel({
     );
   }, []);
 
+  // Files for unmarked items were deleted from storage, so their upload results are dropped too
   const handleUnmarkUploaded = useCallback((itemIds: string[]) => {
     setGallery((s) =>
       s.map((it) =>
         itemIds.includes(it.id) ? { ...it, uploaded: false, uploading: false } : it
       )
     );
-  }, []);
+    const remaining = uploadResultsRef.current.filter((r) => !r.itemId || !itemIds.includes(r.itemId));
+    uploadResultsRef.current = remaining;
+    setUploadResults(remaining);
+    onUploadResultsChange?.(remaining);
+  }, [onUploadResultsChange]);
 
   const handleSetUploading = useCallback((id: string, uploading: boolean) => {
     setGallery((s) =>
-      s.map((it) => (it.id === id ? { ...it, uploading } : it))
+      s.map((it) => (it.id === id ? { ...it, uploading, progress: 0 } : it))
+    );
+  }, []);
+
+  // Only re-render on whole-percent changes - progress events fire many times a second
+  const handleUploadProgress = useCallback((id: string, loaded: number, total: number) => {
+    const progress = total > 0 ? Math.floor((loaded / total) * 100) / 100 : 0;
+    setGallery((s) =>
+      s.some((it) => it.id === id && it.progress !== progress)
+        ? s.map((it) => (it.id === id ? { ...it, progress } : it))
+        : s
     );
   }, []);
 
@@ -208,17 +511,18 @@ export default function ImagePanel({
         })
       );
 
-      // Add invoice number to items if provided
-      const itemsWithInvoice = invoiceNumber
-        ? itemsWithBlobs.map((item) => ({ ...item, invoiceNumber } as GalleryItem & { invoiceNumber?: string }))
-        : itemsWithBlobs;
-      
-      const results = await uploadGalleryItems(itemsWithInvoice as GalleryItem[]);
+      // Add invoice and account numbers so the photos land in the invoice's folder
+      const results = await uploadGalleryItems(
+        itemsWithBlobs.map((item) => ({ ...item, invoiceNumber, accountNumber })),
+        handleUploadProgress
+      );
       
-      // Mark items as uploaded
+      // Mark items as uploaded, failed ones go back to pending
       results.forEach((result) => {
         if (result.itemId && !result.error) {
           handleMarkUploaded(result.itemId);
+        } else if (result.itemId) {
+          handleSetUploading(result.itemId, false);
         }
       });
 
@@ -232,7 +536,7 @@ export default function ImagePanel({
       unuploadedItems.forEach((item) => handleSetUploading(item.id, false));
       throw error;
     }
-  }, [invoiceNumber, onUploadResultsChange, handleSetUploading, handleMarkUploaded]);
+  }, [invoiceNumber, accountNumber, onUploadResultsChange, handleSetUploading, handleMarkUploaded, handleUploadProgress]);
 
   // Clear gallery function
   const clearGallery = useCallback(() => {
@@ -243,6 +547,7 @@ export default function ImagePanel({
       }
     });
     setGallery([]);
+    setLineItems([]);
     setUploadResults([]);
     setNotAuthPressed(false); // Reset "Not Auth" button state when clearing
     onUploadResultsChange?.([]);
@@ -269,11 +574,42 @@ export default function ImagePanel({
     }
   }, [handleUnmarkUploaded, onUnmarkUploadedReady]);
 
+  // Expose unuploaded images to parent so a submission can be queued while offline
+  const getUnuploadedItems = useCallback(
+    () => galleryRef.current.filter((item) => !item.uploaded).map((item) => toDraftImage(item)),
+    []
+  );
+
+  useEffect(() => {
+    if (onGetUnuploadedItemsReady) {
+      onGetUnuploadedItemsReady(getUnuploadedItems);
+    }
+  }, [getUnuploadedItems, onGetUnuploadedItemsReady]);
+
+  // Expose line items to parent so they are saved with the submission
+  const getLineItems = useCallback(() => lineItemsRef.current, []);
+
+  useEffect(() => {
+    if (onGetLineItemsReady) {
+      onGetLineItemsReady(getLineItems);
+    }
+  }, [getLineItems, onGetLineItemsReady]);
+
+  const annotatingItem = annotatingId ? gallery.find((item) => item.id === annotatingId) : undefined;
 
   return (
-    <div className="bg-white w-full rounded-2xl shadow-inner p-4 sm:p-6">
+    <div
+      ref={containerRef}
+      className={`relative bg-white w-full rounded-2xl shadow-inner p-4 sm:p-6 ${dragging ? "ring-2 ring-blue-500" : ""}`}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
       <BarcodeReader
         onCapture={handleCapture}
+        onScan={handleScan}
+        onCaptureRequestReady={handleCaptureRequestReady}
+        acceptedFormats={acceptedFormats}
         additionalButtons={
           <button
             className={`px-3 py-2 bg-orange-500 text-white rounded w-full md:w-auto ${
@@ -287,16 +623,65 @@ export default function ImagePanel({
         }
       />
 
-      <div className="mt-3 text-md text-gray-600 text-left">
-        Queued: {gallery.length}
+      <div className="mt-3 flex items-center justify-between gap-2">
+        <div className="text-md text-gray-600 text-left">
+          Queued: {gallery.length}
+        </div>
+        <button
+          className="px-3 py-2 border border-gray-300 text-gray-700 rounded hover:bg-gray-50 text-sm"
+          onClick={() => importInputRef.current?.click()}
+          title="Or drop photos here"
+        >
+          Import Photos
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          className="hidden"
+          onChange={handleImportSelect}
+        />
       </div>
 
+      <ScanList
+        lines={lineItems}
+        onChange={handleLineChange}
+        onRemove={handleRemoveLine}
+        onCapture={handleLineCapture}
+      />
+
       <div className="mt-4">
         <Gallery
           items={gallery}
           onRemove={handleRemove}
+          onAnnotate={setAnnotatingId}
         />
       </div>
+
+      {dragging && (
+        <div className="pointer-events-none absolute inset-0 z-10 flex items-center justify-center rounded-2xl bg-blue-50/80 text-blue-700 font-medium">
+          Drop photos to import
+        </div>
+      )}
+
+      {importFiles && (
+        <PhotoImportDialog
+          files={importFiles}
+          acceptedFormats={acceptedFormats ?? DEFAULT_ACCEPTED_FORMATS}
+          onImport={handleImport}
+          onClose={() => setImportFiles(null)}
+        />
+      )}
+
+      {annotatingItem && (
+        <AnnotationEditor
+          image={annotatingItem.originalBlob ?? annotatingItem.blob}
+          annotations={annotatingItem.annotations ?? []}
+          onSave={(annotations) => handleSaveAnnotations(annotatingItem.id, annotations)}
+          onCancel={() => setAnnotatingId(null)}
+        />
+      )}
     </div>
   );
 }
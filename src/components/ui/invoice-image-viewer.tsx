@@ -1,5 +1,7 @@
 import { useState, useEffect } from "react";
 import { logger } from "@/lib/logger";
+import { isbnFromFileName } from "@/lib/isbn";
+import { PRIVATE_BUCKET, imageFileName, resolveImageUrls } from "@/lib/photo-storage";
 import {
   Item,
   ItemContent,
@@ -38,28 +40,25 @@ export default function InvoiceImageViewer({
   const [imageSizes, setImageSizes] = useState<{ [key: number]: number }>({});
   const [imageUrls, setImageUrls] = useState<{ [key: number]: string }>({});
 
-  // Extract filename from URL
+  // Extract filename from the stored URL or path
   const getFilename = (index: number): string => {
     try {
-      const url = images[index];
-      const urlPath = new URL(url).pathname;
-      const filename = urlPath.split('/').pop() || `image-${index + 1}`;
-      return filename;
+      return imageFileName(images[index]) || `image-${index + 1}`;
     } catch {
       return `image-${index + 1}`;
     }
   };
 
-  // Extract ISBN from filename (format: isbn_timestamp.jpg)
+  // Stored entries can't be loaded directly from a private bucket - wait for the signed URL
+  const displayUrl = (index: number): string | undefined =>
+    imageUrls[index] || (PRIVATE_BUCKET ? undefined : images[index]);
+
+  // Extract ISBN from filename (format: isbn[-addon]_timestamp.ext), reported as ISBN-13
   const getISBN = (index: number): string => {
     try {
-      const filename = getFilename(index);
-      // Filename format is typically: isbn_timestamp.jpg
-      const parts = filename.split('_');
-      if (parts.length >= 1) {
-        return parts[0];
-      }
-      return 'N/A';
+      const { code, addOn } = isbnFromFileName(getFilename(index));
+      if (!code) return 'N/A';
+      return addOn ? `${code} (add-on ${addOn})` : code;
     } catch {
       return 'N/A';
     }
@@ -70,9 +69,17 @@ export default function InvoiceImageViewer({
     const fetchImages = async () => {
       const sizes: { [key: number]: number } = {};
       const urls: { [key: number]: string } = {};
+
+      let resolved: string[];
+      try {
+        resolved = await resolveImageUrls(images);
+      } catch (error) {
+        logger.error("Error resolving image URLs:", error);
+        return;
+      }
       
       await Promise.all(
-        images.map(async (url, index) => {
+        resolved.map(async (url, index) => {
           try {
             // Fetch the image once
             const response = await fetch(url, { mode: 'cors' });
@@ -136,9 +143,9 @@ export default function InvoiceImageViewer({
   const downloadCurrentImage = async () => {
     if (selectedImageIndex === null) return;
 
-    const imageUrl = images[selectedImageIndex];
     const filename = getFilename(selectedImageIndex);
     try {
+      const [imageUrl] = await resolveImageUrls([images[selectedImageIndex]]);
       const response = await fetch(imageUrl);
       const blob = await response.blob();
       const url = window.URL.createObjectURL(blob);
@@ -213,7 +220,7 @@ export default function InvoiceImageViewer({
           >
             <ItemHeader className="flex justify-center">
               <img
-                src={imageUrls[i] || src}
+                src={displayUrl(i)}
                 alt={`img-${i}`}
                 className="w-28 h-28 object-cover rounded-sm text-wrap text-center"
                 onError={(e) => {
@@ -293,7 +300,7 @@ export default function InvoiceImageViewer({
 
             {/* Image */}
             <img
-              src={imageUrls[selectedImageIndex] || images[selectedImageIndex]}
+              src={displayUrl(selectedImageIndex)}
               alt={`Invoice ${invoiceNumber} - Image ${selectedImageIndex + 1}`}
               className="max-w-full max-h-full object-contain"
             />
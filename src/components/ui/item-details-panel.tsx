@@ -12,7 +12,17 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import InvoiceImageViewer from "@/components/ui/invoice-image-viewer";
+import MergeConflictDialog, { type MergeFields } from "@/components/ui/merge-conflict-dialog";
+import AuditTimeline from "@/components/ui/audit-timeline";
+import LineItemsTable from "@/components/ui/line-items-table";
 import { logger } from "@/lib/logger";
+import { canEditField } from "@/lib/permissions";
+import { validateTransition } from "@/lib/status-workflow";
+import { pickerOptions, referenceLabel } from "@/lib/reference-data";
+import { imageExtension } from "@/lib/image-processing";
+import { resolveImageUrls } from "@/lib/photo-storage";
+import { useUserRoles } from "@/hooks/use-user-roles";
+import { useReferenceData } from "@/hooks/use-reference-data";
 import { toast } from "sonner";
 import { useState, useEffect, useRef } from "react";
 
@@ -38,7 +48,13 @@ type ItemDetailsPanelProps = {
   onStatusChange: (value: string) => void;
   onUpdate: () => void;
   onBack: () => void;
-  requireTeamAndActionForCompleted?: boolean; // If true, validate team and action before allowing Completed status
+  enforceWorkflow?: boolean; // If true, only allow status changes the workflow permits (transitions and required fields)
+  updatedElsewhere?: boolean; // True when another user has saved this record since it was opened
+  onReloadLatest?: () => void;
+  onDismissUpdate?: () => void;
+  conflict?: { base: MergeFields; theirs: MergeFields } | null; // Set when saving hit a newer version
+  onResolveConflict?: (merged: MergeFields) => void;
+  onCancelConflict?: () => void;
 };
 
 export default function ItemDetailsPanel({
@@ -63,10 +79,30 @@ export default function ItemDetailsPanel({
   onStatusChange,
   onUpdate,
   onBack,
-  requireTeamAndActionForCompleted = false,
+  enforceWorkflow = false,
+  updatedElsewhere = false,
+  onReloadLatest,
+  onDismissUpdate,
+  conflict = null,
+  onResolveConflict,
+  onCancelConflict,
 }: ItemDetailsPanelProps) {
   // Track if user has scrolled to enable dropdown buttons
   const [hasScrolled, setHasScrolled] = useState(false);
+  const [activeTab, setActiveTab] = useState<"details" | "history">("details");
+  // Fields the signed-in user's roles allow them to change
+  const { roles } = useUserRoles();
+  const canEditWarehouseNotes = canEditField(roles, "warehouse_notes");
+  const canEditSalesNotes = canEditField(roles, "sales_notes");
+  const canEditTeam = canEditField(roles, "team");
+  const canEditAction = canEditField(roles, "action");
+  const canEditStatus = canEditField(roles, "status");
+  const canEditAny = canEditWarehouseNotes || canEditSalesNotes || canEditTeam || canEditAction || canEditStatus;
+  // Admin-managed picker values (a retired value stays listed while it is the current one)
+  const reference = useReferenceData();
+  const teamOptions = pickerOptions(reference, "team", allocated);
+  const actionOptions = pickerOptions(reference, "action", action);
+  const statusOptions = pickerOptions(reference, "status", status);
   const mobileContainerRef = useRef<HTMLDivElement>(null);
   const desktopContainerRef = useRef<HTMLDivElement>(null);
 
@@ -134,12 +170,15 @@ export default function ItemDetailsPanel({
       const JSZip = (await import("jszip")).default;
       const zip = new JSZip();
       
+      // Private buckets store paths - swap them for signed URLs before fetching
+      const imageUrls = await resolveImageUrls(images);
+
       // Fetch all images and add them to the zip
-      const imagePromises = images.map(async (imageUrl, index) => {
+      const imagePromises = imageUrls.map(async (imageUrl, index) => {
         try {
           const response = await fetch(imageUrl);
           const blob = await response.blob();
-          const fileName = `${accountNumber}-${invoiceNumber}-${index + 1}.jpg`;
+          const fileName = `${accountNumber}-${invoiceNumber}-${index + 1}.${imageExtension(blob.type)}`;
           zip.file(fileName, blob);
         } catch (error) {
           logger.error(`Error fetching image ${index + 1}:`, error);
@@ -166,21 +205,52 @@ export default function ItemDetailsPanel({
     }
   };
 
+  // Why a status can't be picked right now, or null if it can
+  const statusBlockedReason = (value: string) =>
+    enforceWorkflow ? validateTransition(status, value, { team: allocated, action }) : null;
+
   const handleStatusChange = (value: string) => {
-    // Validate that Completed status requires team and action if required
-    if (requireTeamAndActionForCompleted && value === "Completed") {
-      if (!allocated || allocated.trim() === "") {
-        toast.error("Please assign a team before marking as Completed");
-        return;
-      }
-      if (!action || action.trim() === "") {
-        toast.error("Please select an action before marking as Completed");
-        return;
-      }
+    const blocked = statusBlockedReason(value);
+    if (blocked) {
+      toast.error(blocked);
+      return;
     }
     onStatusChange(value);
   };
 
+  // Shown when the open record was changed by someone else
+  const updatedElsewhereNotice = updatedElsewhere ? (
+    <div className="flex flex-wrap items-center gap-2 rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-900">
+      <span className="flex-1">Updated by someone else since you opened it.</span>
+      <Button size="sm" variant="outline" onClick={onReloadLatest}>
+        Load latest
+      </Button>
+      <Button size="sm" variant="ghost" onClick={onDismissUpdate}>
+        Dismiss
+      </Button>
+    </div>
+  ) : null;
+
+  // Switch between the editable details and the change history
+  const tabs = (
+    <div className="flex gap-2">
+      <Button
+        variant={activeTab === "details" ? "default" : "outline"}
+        size="sm"
+        onClick={() => setActiveTab("details")}
+      >
+        Details
+      </Button>
+      <Button
+        variant={activeTab === "history" ? "default" : "outline"}
+        size="sm"
+        onClick={() => setActiveTab("history")}
+      >
+        History
+      </Button>
+    </div>
+  );
+
   return (
     <>
       {/* Desktop: Right Side - Details and Images (md+ only when item selected) */}
@@ -190,7 +260,10 @@ export default function ItemDetailsPanel({
           <Button className="sm:w-auto w-full md:w-auto" onClick={onBack}>
             Back
           </Button>
-          <div className="flex flex-col gap-4">
+          {updatedElsewhereNotice}
+          {tabs}
+          {activeTab === "history" && <AuditTimeline key={invoiceNumber} invoiceNumber={invoiceNumber} />}
+          <div className={`flex flex-col gap-4 ${activeTab === "history" ? "hidden" : ""}`}>
             <div className="flex sm:flex-row sm:flex-wrap gap-2
             ">
             <Label htmlFor="account">Account number:</Label>
@@ -225,7 +298,7 @@ export default function ItemDetailsPanel({
               value={warehouse_notes}
               onChange={(e) => onWarehouseNotesChange(e.target.value)}
               rows={3}
-              disabled={!invoiceNumber}
+              disabled={!invoiceNumber || !canEditWarehouseNotes}
               id="warehouse-notes"
             />
             <Label htmlFor="sales-notes">Sales Notes:</Label>
@@ -235,15 +308,15 @@ export default function ItemDetailsPanel({
               value={sales_notes}
               onChange={(e) => onSalesNotesChange(e.target.value)}
               rows={3}
-              disabled={!invoiceNumber}
+              disabled={!invoiceNumber || !canEditSalesNotes}
               id="sales-notes"
             />
             {/* Team allocation */}
             
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
-                <Button variant="outline" disabled={!invoiceNumber || !hasScrolled}>
-                  {allocated ? `Team: ${allocated}` : "Allocate Team"}
+                <Button variant="outline" disabled={!invoiceNumber || !hasScrolled || !canEditTeam}>
+                  {allocated ? `Team: ${referenceLabel(reference.team, allocated)}` : "Allocate Team"}
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent className="w-56">
@@ -253,29 +326,19 @@ export default function ItemDetailsPanel({
                   value={allocated}
                   onValueChange={onTeamChange}
                 >
-                  <DropdownMenuRadioItem value="Uk Sales">
-                    Uk Sales
-                  </DropdownMenuRadioItem>
-                  <DropdownMenuRadioItem value="Export">
-                    Export
-                  </DropdownMenuRadioItem>
-                  <DropdownMenuRadioItem value="Supermarket">
-                    Supermarket
-                  </DropdownMenuRadioItem>
-                  <DropdownMenuRadioItem value="Amazon">
-                    Amazon
-                  </DropdownMenuRadioItem>
-                  <DropdownMenuRadioItem value="Exceptions">
-                    Exceptions
-                  </DropdownMenuRadioItem>
+                  {teamOptions.map((option) => (
+                    <DropdownMenuRadioItem key={option.value} value={option.value} disabled={option.retired}>
+                      {option.label}
+                    </DropdownMenuRadioItem>
+                  ))}
                 </DropdownMenuRadioGroup>
               </DropdownMenuContent>
             </DropdownMenu>
             {/* Action */}
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
-                <Button variant="outline" disabled={!invoiceNumber || !hasScrolled}>
-                  {action ? `Action: ${action}` : "Set Action"}
+                <Button variant="outline" disabled={!invoiceNumber || !hasScrolled || !canEditAction}>
+                  {action ? `Action: ${referenceLabel(reference.action, action)}` : "Set Action"}
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent className="w-56">
@@ -285,18 +348,11 @@ export default function ItemDetailsPanel({
                   value={action}
                   onValueChange={onActionChange}
                 >
-                  <DropdownMenuRadioItem value="Pulp">
-                    Pulp
-                  </DropdownMenuRadioItem>
-                  <DropdownMenuRadioItem value="Back to Stock">
-                    Back to Stock
-                  </DropdownMenuRadioItem>
-                  <DropdownMenuRadioItem value="Credit">
-                    Credit
-                  </DropdownMenuRadioItem>
-                  <DropdownMenuRadioItem value="Return to Customer">
-                    Return to Customer
-                  </DropdownMenuRadioItem>
+                  {actionOptions.map((option) => (
+                    <DropdownMenuRadioItem key={option.value} value={option.value} disabled={option.retired}>
+                      {option.label}
+                    </DropdownMenuRadioItem>
+                  ))}
                 </DropdownMenuRadioGroup>
               </DropdownMenuContent>
             </DropdownMenu>
@@ -304,8 +360,8 @@ export default function ItemDetailsPanel({
             {/* Item Status */}
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
-                <Button variant="outline" disabled={!invoiceNumber || !hasScrolled}>
-                  {status ? `Status: ${status}` : "Set Status"}
+                <Button variant="outline" disabled={!invoiceNumber || !hasScrolled || !canEditStatus}>
+                  {status ? `Status: ${referenceLabel(reference.status, status)}` : "Set Status"}
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent className="w-56">
@@ -315,18 +371,15 @@ export default function ItemDetailsPanel({
                   value={status}
                   onValueChange={handleStatusChange}
                 >
-                  <DropdownMenuRadioItem value="Logged">
-                    Logged
-                  </DropdownMenuRadioItem>
-                  <DropdownMenuRadioItem value="Assessed">
-                    Assessed
-                  </DropdownMenuRadioItem>
-                  <DropdownMenuRadioItem 
-                    value="Completed"
-                    disabled={requireTeamAndActionForCompleted && (!allocated || allocated.trim() === "" || !action || action.trim() === "")}
-                  >
-                    Completed
-                  </DropdownMenuRadioItem>
+                  {statusOptions.map((option) => (
+                    <DropdownMenuRadioItem
+                      key={option.value}
+                      value={option.value}
+                      disabled={option.retired || !!statusBlockedReason(option.value)}
+                    >
+                      {option.label}
+                    </DropdownMenuRadioItem>
+                  ))}
                 </DropdownMenuRadioGroup>
               </DropdownMenuContent>
             </DropdownMenu>
@@ -334,13 +387,20 @@ export default function ItemDetailsPanel({
             <Button
               className="col-span-2 sm:col-span-3 w-full"
               onClick={onUpdate}
-              disabled={loading || !invoiceNumber}
+              disabled={loading || !invoiceNumber || !canEditAny}
             >
               {loading ? "Submitting Changes" : "Submit Changes"}
             </Button>
           </div>
         </div>
 
+        {/* Line items - per-code quantity, condition and photos */}
+        {invoiceNumber && (
+          <div className="px-4 pt-4">
+            <LineItemsTable key={invoiceNumber} invoiceNumber={invoiceNumber} />
+          </div>
+        )}
+
         {/* Images - Bottom Right */}
         {images.length > 0 && (
           <div className="p-4">
@@ -367,7 +427,10 @@ export default function ItemDetailsPanel({
         <Button className="sm:w-auto" onClick={onBack}>
           Back
         </Button>
-        <div className="flex flex-col gap-4">
+        {updatedElsewhereNotice}
+        {tabs}
+        {activeTab === "history" && <AuditTimeline key={invoiceNumber} invoiceNumber={invoiceNumber} />}
+        <div className={`flex flex-col gap-4 ${activeTab === "history" ? "hidden" : ""}`}>
           <Label htmlFor="account-mobile">Account number:</Label>
           <Input
             placeholder="Account Number"
@@ -399,7 +462,7 @@ export default function ItemDetailsPanel({
             value={warehouse_notes}
             onChange={(e) => onWarehouseNotesChange(e.target.value)}
             rows={3}
-            disabled={!invoiceNumber}
+            disabled={!invoiceNumber || !canEditWarehouseNotes}
             id="warehouse-notes-mobile"
           />
           <Label htmlFor="sales-notes-mobile">Sales Notes:</Label>
@@ -409,14 +472,14 @@ export default function ItemDetailsPanel({
             value={sales_notes}
             onChange={(e) => onSalesNotesChange(e.target.value)}
             rows={3}
-            disabled={!invoiceNumber}
+            disabled={!invoiceNumber || !canEditSalesNotes}
             id="sales-notes-mobile"
           />
           {/* Team allocation */}
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
-              <Button variant="outline" disabled={!invoiceNumber || !hasScrolled}>
-                {allocated ? `Team: ${allocated}` : "Allocate Team"}
+              <Button variant="outline" disabled={!invoiceNumber || !hasScrolled || !canEditTeam}>
+                {allocated ? `Team: ${referenceLabel(reference.team, allocated)}` : "Allocate Team"}
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent className="w-56">
@@ -426,29 +489,19 @@ export default function ItemDetailsPanel({
                 value={allocated}
                 onValueChange={onTeamChange}
               >
-                <DropdownMenuRadioItem value="Uk Sales">
-                  Uk Sales
-                </DropdownMenuRadioItem>
-                <DropdownMenuRadioItem value="Export">
-                  Export
-                </DropdownMenuRadioItem>
-                <DropdownMenuRadioItem value="Supermarket">
-                  Supermarket
-                </DropdownMenuRadioItem>
-                <DropdownMenuRadioItem value="Amazon">
-                  Amazon
-                </DropdownMenuRadioItem>
-                <DropdownMenuRadioItem value="Exceptions">
-                  Exceptions
-                </DropdownMenuRadioItem>
+                {teamOptions.map((option) => (
+                  <DropdownMenuRadioItem key={option.value} value={option.value} disabled={option.retired}>
+                    {option.label}
+                  </DropdownMenuRadioItem>
+                ))}
               </DropdownMenuRadioGroup>
             </DropdownMenuContent>
           </DropdownMenu>
           {/* Action */}
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
-              <Button variant="outline" disabled={!invoiceNumber || !hasScrolled}>
-                {action ? `Action: ${action}` : "Set Action"}
+              <Button variant="outline" disabled={!invoiceNumber || !hasScrolled || !canEditAction}>
+                {action ? `Action: ${referenceLabel(reference.action, action)}` : "Set Action"}
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent className="w-56">
@@ -458,26 +511,19 @@ export default function ItemDetailsPanel({
                 value={action}
                 onValueChange={onActionChange}
               >
-                <DropdownMenuRadioItem value="Pulp">
-                  Pulp
-                </DropdownMenuRadioItem>
-                <DropdownMenuRadioItem value="Back to Stock">
-                  Back to Stock
-                </DropdownMenuRadioItem>
-                <DropdownMenuRadioItem value="Credit">
-                  Credit
-                </DropdownMenuRadioItem>
-                <DropdownMenuRadioItem value="Return to Customer">
-                  Return to Customer
-                </DropdownMenuRadioItem>
+                {actionOptions.map((option) => (
+                  <DropdownMenuRadioItem key={option.value} value={option.value} disabled={option.retired}>
+                    {option.label}
+                  </DropdownMenuRadioItem>
+                ))}
               </DropdownMenuRadioGroup>
             </DropdownMenuContent>
           </DropdownMenu>
           {/* Item Status */}
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
-              <Button variant="outline" disabled={!invoiceNumber || !hasScrolled}>
-                {status ? `Status: ${status}` : "Set Status"}
+              <Button variant="outline" disabled={!invoiceNumber || !hasScrolled || !canEditStatus}>
+                {status ? `Status: ${referenceLabel(reference.status, status)}` : "Set Status"}
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent className="w-56">
@@ -487,29 +533,28 @@ export default function ItemDetailsPanel({
                 value={status}
                 onValueChange={handleStatusChange}
               >
-                <DropdownMenuRadioItem value="Logged">
-                  Logged
-                </DropdownMenuRadioItem>
-                <DropdownMenuRadioItem value="Assessed">
-                  Assessed
-                </DropdownMenuRadioItem>
-                <DropdownMenuRadioItem 
-                  value="Completed"
-                  disabled={requireTeamAndActionForCompleted && (!allocated || allocated.trim() === "" || !action || action.trim() === "")}
-                >
-                  Completed
-                </DropdownMenuRadioItem>
+                {statusOptions.map((option) => (
+                  <DropdownMenuRadioItem
+                    key={option.value}
+                    value={option.value}
+                    disabled={option.retired || !!statusBlockedReason(option.value)}
+                  >
+                    {option.label}
+                  </DropdownMenuRadioItem>
+                ))}
               </DropdownMenuRadioGroup>
             </DropdownMenuContent>
           </DropdownMenu>
           <Button
             className="col-span-2 sm:col-span-3 w-full"
             onClick={onUpdate}
-            disabled={loading || !invoiceNumber}
+            disabled={loading || !invoiceNumber || !canEditAny}
           >
             {loading ? "Submitting Changes" : "Submit Changes"}
           </Button>
         </div>
+        {/* Mobile Line items */}
+        {invoiceNumber && <LineItemsTable key={invoiceNumber} invoiceNumber={invoiceNumber} />}
         {/* Mobile Images */}
         {images.length > 0 && (
           <div className="mt-4">
@@ -530,6 +575,23 @@ export default function ItemDetailsPanel({
           </div>
         )}
       </div>
+
+      {/* Merge dialog when the save was rejected because someone else saved first */}
+      {conflict && (
+        <MergeConflictDialog
+          base={conflict.base}
+          mine={{
+            warehouse_notes,
+            sales_notes,
+            team: allocated || null,
+            action: action || null,
+            status: status || null,
+          }}
+          theirs={conflict.theirs}
+          onResolve={(merged) => onResolveConflict?.(merged)}
+          onCancel={() => onCancelConflict?.()}
+        />
+      )}
     </>
   );
 }
@@ -0,0 +1,108 @@
+import { useEffect, useState } from "react";
+import { getDecoder } from "@/lib/barcode-decoders";
+import {
+  conditionLabel,
+  damageTypeLabel,
+  lineItemsRepository,
+  type ReturnLineItem,
+} from "@/lib/line-items";
+import { resolveImageUrls } from "@/lib/photo-storage";
+
+type LineItemsTableProps = {
+  invoiceNumber: string;
+};
+
+export default function LineItemsTable({ invoiceNumber }: LineItemsTableProps) {
+  const [items, setItems] = useState<ReturnLineItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const invoiceNum = parseInt(invoiceNumber, 10);
+    lineItemsRepository
+      .listForInvoice(invoiceNum)
+      .then(async (data) => {
+        // Swap stored paths for signed URLs when the bucket is private
+        const urls = await resolveImageUrls(data.flatMap((item) => item.images));
+        let next = 0;
+        return data.map((item) => ({ ...item, images: item.images.map(() => urls[next++]) }));
+      })
+      .then((data) => {
+        if (!cancelled) setItems(data);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load line items");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [invoiceNumber]);
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading line items...</p>;
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  // Returns logged before line items were captured only have images
+  if (items.length === 0) {
+    return null;
+  }
+
+  const totalQuantity = items.reduce((sum, item) => sum + item.quantity, 0);
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm text-left">
+        <thead className="text-xs text-gray-500 border-b">
+          <tr>
+            <th className="py-2 pr-2 font-medium">Code</th>
+            <th className="py-2 pr-2 font-medium text-right">Qty</th>
+            <th className="py-2 pr-2 font-medium">Condition</th>
+            <th className="py-2 pr-2 font-medium">Damage</th>
+            <th className="py-2 font-medium">Photos</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {items.map((item) => (
+            <tr key={item.id}>
+              <td className="py-2 pr-2">
+                <div className="font-mono break-all">
+                  {item.isbn}
+                  {item.add_on && <span className="text-gray-500"> +{item.add_on}</span>}
+                </div>
+                <div className="text-xs text-gray-500">{getDecoder(item.symbology ?? "isbn")?.label}</div>
+              </td>
+              <td className="py-2 pr-2 text-right font-semibold">{item.quantity}</td>
+              <td className="py-2 pr-2">{conditionLabel(item.condition) || "-"}</td>
+              <td className="py-2 pr-2">{damageTypeLabel(item.damage_type) || "-"}</td>
+              <td className="py-2">
+                <div className="flex flex-wrap gap-1">
+                  {item.images.map((url) => (
+                    <a key={url} href={url} target="_blank" rel="noreferrer">
+                      <img src={url} alt={item.isbn} className="w-10 h-10 object-cover rounded-sm" />
+                    </a>
+                  ))}
+                  {item.images.length === 0 && <span className="text-gray-500">-</span>}
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot className="border-t text-gray-600">
+          <tr>
+            <td className="py-2 pr-2">{items.length} {items.length === 1 ? "line" : "lines"}</td>
+            <td className="py-2 pr-2 text-right font-semibold">{totalQuantity}</td>
+            <td colSpan={3} />
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+}
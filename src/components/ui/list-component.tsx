@@ -1,9 +1,24 @@
-import { useState, useEffect } from "react";
-import { supabase } from "@/lib/supabaseClient";
+import { useState, useEffect, useMemo, useRef, useCallback } from "react";
 import { Button } from "./button";
 import InvoiceImageViewer from "./invoice-image-viewer";
 import JSZip from "jszip";
 import { logger } from "@/lib/logger";
+import { getStatusColor } from "@/lib/status-workflow";
+import { imageExtension } from "@/lib/image-processing";
+import { resolveImageUrls } from "@/lib/photo-storage";
+import {
+  returnsRepository,
+  matchesFilters,
+  compareNewestFirst,
+  returnSource,
+  type ReturnListFilters,
+  type ReturnRecord,
+  type ReturnRecordChange,
+  type ReturnSource,
+} from "@/lib/returns-repository";
+
+// Delay before a typed search is sent to the database
+const SEARCH_DEBOUNCE_MS = 300;
 
 type ListProps = {
   query?: string;
@@ -12,13 +27,37 @@ type ListProps = {
   yearFilter?: string;
   assignedFilter?: string;
   assessedFilter?: string;
-  showOnlyCompleted?: boolean; // If true, only show items with status "Completed"
-  onSelect?: (item: any) => void;
+  showOnlyCompleted?: boolean; // If true, only show items with a closed status (e.g. "Completed")
+  source?: ReturnSource; // Only show returns logged from this capture screen
+  onSelect?: (item: ReturnRecord) => void;
+  onRecordChange?: (item: ReturnRecord) => void; // Called when another user inserts or updates a record
   onBack?: () => void;
   showInlineImageViewer?: boolean; // If false, don't show image viewer inline (for responsive layouts)
   selectedInvoiceNumber?: string | null; // Invoice number of currently selected item for active styling
 };
 
+/** Apply a realtime change to the loaded rows, keeping them filtered and sorted newest first */
+function applyChange(
+  rows: ReturnRecord[],
+  change: ReturnRecordChange,
+  filters: ReturnListFilters,
+  hasMorePages: boolean
+): ReturnRecord[] {
+  const invoiceNumber = change.type === "DELETE" ? change.invoiceNumber : change.record.InvoiceNumber;
+  const remaining = rows.filter((row) => row.InvoiceNumber !== invoiceNumber);
+  if (change.type === "DELETE" || !matchesFilters(change.record, filters)) {
+    return remaining;
+  }
+
+  // Rows older than the last loaded one will arrive with a later page
+  const last = remaining[remaining.length - 1];
+  if (hasMorePages && last && compareNewestFirst(change.record, last) > 0) {
+    return remaining;
+  }
+
+  return [...remaining, change.record].sort(compareNewestFirst);
+}
+
 export default function ListComponent({
   query = "",
   filter = "All",
@@ -27,28 +66,118 @@ export default function ListComponent({
   assignedFilter = "All",
   assessedFilter = "All",
   showOnlyCompleted = false,
+  source,
   onSelect,
+  onRecordChange,
   onBack,
   showInlineImageViewer = true, // Default to true for backward compatibility
   selectedInvoiceNumber = null,
 }: ListProps) {
-  const [dataList, setDataList] = useState<any[]>([]);
+  const [dataList, setDataList] = useState<ReturnRecord[]>([]);
   const [selectedInvoice, setSelectedInvoice] = useState<string | null>(null);
+  const [debouncedQuery, setDebouncedQuery] = useState(query);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const loadingMoreRef = useRef(false);
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
 
+  // Debounce free-text search so each keystroke doesn't hit the database
   useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const filters = useMemo<ReturnListFilters>(
+    () => ({
+      search: debouncedQuery,
+      team: filter,
+      month: monthFilter,
+      year: yearFilter,
+      assigned: assignedFilter,
+      assessed: assessedFilter,
+      completedOnly: showOnlyCompleted,
+      source,
+    }),
+    [debouncedQuery, filter, monthFilter, yearFilter, assignedFilter, assessedFilter, showOnlyCompleted, source]
+  );
+
+  // Load the first page whenever the filters change
+  useEffect(() => {
+    let cancelled = false;
     async function fetchRows() {
       logger.log("Fetching rows from database...");
-      const { data, error } = await supabase.from("returns-app").select();
-      if (error) {
-        logger.error("Error fetching rows:", error);
-      } else {
-        logger.log("Fetched rows:", data?.length || 0);
+      try {
+        const page = await returnsRepository.listPage(filters);
+        if (cancelled) return;
+        logger.log("Fetched rows:", page.records.length);
+        setDataList(page.records);
+        setNextCursor(page.nextCursor);
+      } catch {
+        // Already logged by the repository
+        if (cancelled) return;
+        setDataList([]);
+        setNextCursor(null);
+      } finally {
+        if (!cancelled) setLoading(false);
       }
-      setDataList(data || []);
     }
     fetchRows();
+    return () => {
+      cancelled = true;
+    };
+  }, [filters]);
+
+  // Keep the latest values available to the realtime listener and page loads without resubscribing
+  const filtersRef = useRef(filters);
+  const nextCursorRef = useRef(nextCursor);
+  const onRecordChangeRef = useRef(onRecordChange);
+  useEffect(() => {
+    filtersRef.current = filters;
+    nextCursorRef.current = nextCursor;
+    onRecordChangeRef.current = onRecordChange;
+  });
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMoreRef.current) return;
+    loadingMoreRef.current = true;
+    try {
+      const page = await returnsRepository.listPage(filters, nextCursor);
+      // The filters changed while this page loaded - it belongs to the old list
+      if (filtersRef.current !== filters) return;
+      setDataList((prev) => [...prev, ...page.records]);
+      setNextCursor(page.nextCursor);
+    } catch {
+      if (filtersRef.current !== filters) return;
+      // Already logged by the repository - stop paging until filters change
+      setNextCursor(null);
+    } finally {
+      loadingMoreRef.current = false;
+    }
+  }, [filters, nextCursor]);
+
+  // Live updates - apply inserts, status changes and team allocations as they happen
+  useEffect(() => {
+    return returnsRepository.subscribe((change: ReturnRecordChange) => {
+      setDataList((prev) => applyChange(prev, change, filtersRef.current, nextCursorRef.current !== null));
+      if (change.type !== "DELETE") {
+        onRecordChangeRef.current?.(change.record);
+      }
+    });
   }, []);
 
+  // Infinite scroll - fetch the next page when the end of the list comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        loadMore();
+      }
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [loadMore, nextCursor]);
+
   const handleSelect = (invNum: string) => {
     const item = dataList.find(
       (el) => String(el.InvoiceNumber) === String(invNum)
@@ -66,12 +195,15 @@ export default function ListComponent({
     try {
       const zip = new JSZip();
       
+      // Private buckets store paths - swap them for signed URLs before fetching
+      const imageUrls = await resolveImageUrls(images);
+
       // Fetch all images and add them to the zip
-      const imagePromises = images.map(async (imageUrl, index) => {
+      const imagePromises = imageUrls.map(async (imageUrl, index) => {
         try {
           const response = await fetch(imageUrl);
           const blob = await response.blob();
-          const fileName = `${accountNumber}-${invoiceNumber}-${index + 1}.jpg`;
+          const fileName = `${accountNumber}-${invoiceNumber}-${index + 1}.${imageExtension(blob.type)}`;
           zip.file(fileName, blob);
         } catch (error) {
           logger.error(`Error fetching image ${index + 1}:`, error);
@@ -98,118 +230,8 @@ export default function ListComponent({
     }
   };
 
-  const q = query.trim().toLowerCase();
-
-  // Apply completed filter FIRST if showOnlyCompleted is true
-  let filtered = dataList;
-  if (showOnlyCompleted) {
-    // Only show items with status "Completed" - this is the ONLY check needed
-    filtered = filtered.filter((el) => {
-      const status = String(el.status || "").trim();
-      return status.toLowerCase() === "completed";
-    });
-  }
-
-  // Apply text search filter
-  filtered = q
-    ? filtered.filter(
-        (el) =>
-          String(el.InvoiceNumber).toLowerCase().includes(q) ||
-          String(el.accountNumber).toLowerCase().includes(q) ||
-          String(el.rNumber).toLowerCase().includes(q)
-      )
-    : filtered;
-
-  // Apply team filter (from Select in Search) if not "All"
-  const teamFilter = filter?.trim();
-  if (teamFilter && teamFilter !== "All") {
-    filtered = filtered.filter(
-      (el) => String(el.team || "").trim() === teamFilter
-    );
-  }
-
-  // Apply assigned/unassigned filter
-  const assignedFilterTrimmed = assignedFilter?.trim();
-  if (assignedFilterTrimmed && assignedFilterTrimmed !== "All") {
-    if (assignedFilterTrimmed === "Assigned") {
-      // Show only items with a team assigned
-      filtered = filtered.filter((el) => el.team && String(el.team).trim() !== "");
-    } else if (assignedFilterTrimmed === "Unassigned") {
-      // Show only items without a team assigned
-      filtered = filtered.filter((el) => !el.team || String(el.team).trim() === "");
-    }
-  }
-
-  // Apply assessed/unassessed filter
-  const assessedFilterTrimmed = assessedFilter?.trim();
-  if (assessedFilterTrimmed && assessedFilterTrimmed !== "All") {
-    if (assessedFilterTrimmed === "Assessed") {
-      // Show only items with status "Assessed"
-      filtered = filtered.filter((el) => String(el.status || "").trim() === "Assessed");
-    } else if (assessedFilterTrimmed === "Unassessed") {
-      // Show only items that are not "Assessed" (Logged, Completed, or null)
-      filtered = filtered.filter((el) => String(el.status || "").trim() !== "Assessed");
-    }
-  }
-
-  // Apply month/year filter based on `created_at` field
-  const monthAbbrevs = ["Jan","Feb","Mar","Apr","May","Jun","Jul","Aug","Sep","Oct","Nov","Dec"];
-  const monthFilterTrimmed = monthFilter?.trim();
-  const yearFilterTrimmed = yearFilter?.trim();
-
-  if (
-    (monthFilterTrimmed && monthFilterTrimmed !== "All") ||
-    (yearFilterTrimmed && yearFilterTrimmed !== "All")
-  ) {
-    filtered = filtered.filter((el) => {
-      if (!el.created_at) return false;
-      const d = new Date(el.created_at);
-      if (Number.isNaN(d.getTime())) return false;
-
-      const itemMonth = monthAbbrevs[d.getMonth()];
-      const itemYear = String(d.getFullYear());
-      const itemYearShort = itemYear.slice(-2); // Get last 2 digits for shorthand comparison
-
-      const monthOk =
-        !monthFilterTrimmed || monthFilterTrimmed === "All"
-          ? true
-          : itemMonth === monthFilterTrimmed;
-
-      const yearOk =
-        !yearFilterTrimmed || yearFilterTrimmed === "All"
-          ? true
-          : itemYearShort === yearFilterTrimmed || itemYear === yearFilterTrimmed; // Support both shorthand and full year
-
-      return monthOk && yearOk;
-    });
-  }
-
-  // Filter out items with status "Completed" for sales menu (if not showOnlyCompleted)
-  if (!showOnlyCompleted) {
-    filtered = filtered.filter((el) => {
-      const status = String(el.status || "").trim();
-      return status.toLowerCase() !== "completed";
-    });
-  }
-
-  // Sort by date and time (newest first)
-  filtered = [...filtered].sort((a, b) => {
-    // Handle missing created_at fields
-    if (!a.created_at && !b.created_at) return 0;
-    if (!a.created_at) return 1; // Put items without date at the end
-    if (!b.created_at) return -1; // Put items without date at the end
-    
-    const dateA = new Date(a.created_at);
-    const dateB = new Date(b.created_at);
-    
-    // Check if dates are valid
-    if (Number.isNaN(dateA.getTime()) && Number.isNaN(dateB.getTime())) return 0;
-    if (Number.isNaN(dateA.getTime())) return 1;
-    if (Number.isNaN(dateB.getTime())) return -1;
-    
-    // Sort descending (newest first)
-    return dateB.getTime() - dateA.getTime();
-  });
+  // Rows arrive already filtered and sorted newest first from the database
+  const filtered = dataList;
 
   return (
     <div className="h-full">
@@ -266,15 +288,6 @@ export default function ListComponent({
       ) : (
         <div>
           {filtered.map((element) => {
-            // Get status circle color (traffic light colors)
-            const getStatusCircleColor = (status: string | null | undefined): string => {
-              if (!status) return "bg-gray-500";
-              const statusLower = status.toLowerCase();
-              if (statusLower === "logged") return "bg-red-600";
-              if (statusLower === "assessed") return "bg-orange-600";
-              if (statusLower === "completed") return "bg-green-600";
-              return "bg-gray-500";
-            };
 
             // Get allocated/team circle color (red if no team, green if team exists)
             const getTeamCircleColor = (team: string | null | undefined): string => {
@@ -294,7 +307,10 @@ export default function ListComponent({
               >
                 <div className="flex flex-col flex-wrap gap-2 text-left items-start justify-center h-16">
                     <p className="text-left">Acc: {element.accountNumber ? element.accountNumber.toUpperCase() : "N/A"}</p>
-                    <p className="text-left">RA: {element.rNumber ? `${element.rNumber}` : "Damages"}</p>                  
+                    <p className="text-left">
+                      RA: {element.rNumber ? `${element.rNumber}` : "Damages"}
+                      {returnSource(element) === "returns" ? " (Customer)" : ""}
+                    </p>                  
                     <p className="text-left">Inv: {element.InvoiceNumber || "N/A"}</p>
                     <br></br>
                 </div>
@@ -307,14 +323,19 @@ export default function ListComponent({
                   </div>
                   <div className="flex items-center gap-2 justify-start">
                     <span className="text-sm text-left">Status:</span>
-                    <div className={`w-4 h-4 rounded-full ${getStatusCircleColor(element.status)}`} title={element.status || "N/A"} />
+                    <div className={`w-4 h-4 rounded-full ${getStatusColor(element.status)}`} title={element.status || "N/A"} />
                     
                   </div>
                 </div>
               </Button>
             );
           })}
-          {filtered.length === 0 && (
+          {nextCursor && (
+            <div ref={sentinelRef} className="py-2 text-center text-sm text-gray-500">
+              Loading more...
+            </div>
+          )}
+          {filtered.length === 0 && !loading && (
             <p className="text-sm text-gray-500">No results</p>
           )}
         </div>
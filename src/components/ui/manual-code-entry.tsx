@@ -0,0 +1,79 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { decodeTypedCode, getDecoder, type DecodedBarcode, type Symbology } from "@/lib/barcode-decoders";
+
+type ManualCodeEntryProps = {
+  acceptedFormats: Symbology[];
+  onCapture: (barcode: DecodedBarcode) => void; // Take the photo for the typed code
+  onAdd?: (barcode: DecodedBarcode) => void; // Add the code as a line item without a photo
+  onCancel: () => void;
+};
+
+export default function ManualCodeEntry({ acceptedFormats, onCapture, onAdd, onCancel }: ManualCodeEntryProps) {
+  const [value, setValue] = useState("");
+  const { barcode, error } = decodeTypedCode(value, acceptedFormats);
+  const booksOnly = acceptedFormats.length === 1 && acceptedFormats[0] === "isbn";
+
+  const submit = () => {
+    if (barcode) onCapture(barcode);
+  };
+
+  return (
+    <div className="space-y-2 rounded-lg border p-3 text-left">
+      <label htmlFor="manual-code" className="text-sm font-medium">
+        {booksOnly ? "Type the ISBN printed under the barcode" : "Type the number printed under the barcode"}
+      </label>
+      <Input
+        id="manual-code"
+        autoFocus
+        inputMode={booksOnly ? "numeric" : "text"}
+        autoComplete="off"
+        placeholder={booksOnly ? "978..." : "ISBN, EAN or SKU"}
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") submit();
+          if (e.key === "Escape") onCancel();
+        }}
+        aria-invalid={!!error}
+      />
+      {barcode ? (
+        <p className="text-sm text-green-700 break-all">
+          Valid {getDecoder(barcode.symbology)?.label ?? "code"}: {barcode.value}
+          {barcode.raw.replace(/[\s-]/g, "").toUpperCase() !== barcode.value && ` (entered ${barcode.raw})`}
+        </p>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : (
+        <p className="text-sm text-gray-500">
+          {booksOnly ? "ISBNs have 10 or 13 digits" : "Checked as you type"}
+        </p>
+      )}
+      <div className="flex gap-2">
+        <button
+          className="px-3 py-2 bg-green-500 text-white rounded flex-1 md:flex-none disabled:opacity-50"
+          onClick={submit}
+          disabled={!barcode}
+        >
+          Take Photo
+        </button>
+        {onAdd && (
+          <button
+            className="px-3 py-2 bg-blue-600 text-white rounded flex-1 md:flex-none disabled:opacity-50"
+            onClick={() => {
+              if (!barcode) return;
+              onAdd(barcode);
+              setValue("");
+            }}
+            disabled={!barcode}
+          >
+            Add without photo
+          </button>
+        )}
+        <button className="px-3 py-2 bg-gray-500 text-white rounded flex-1 md:flex-none" onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import type { EditableFieldValues } from "@/lib/returns-repository";
+
+// Form values are plain strings, checked by toEditableFields before they are saved
+export type MergeFields = EditableFieldValues;
+
+type MergeConflictDialogProps = {
+  base: MergeFields; // Values when the record was opened
+  mine: MergeFields; // Values currently in the form
+  theirs: MergeFields; // Values saved by the other user
+  onResolve: (merged: MergeFields) => void;
+  onCancel: () => void;
+};
+
+type Choice = "mine" | "theirs";
+
+const FIELD_LABELS: Record<keyof MergeFields, string> = {
+  warehouse_notes: "Warehouse Notes",
+  sales_notes: "Sales Notes",
+  team: "Team",
+  action: "Action",
+  status: "Status",
+};
+
+const FIELDS = Object.keys(FIELD_LABELS) as Array<keyof MergeFields>;
+
+function display(value: string | null) {
+  return value && value.trim() !== "" ? value : "(empty)";
+}
+
+export default function MergeConflictDialog({
+  base,
+  mine,
+  theirs,
+  onResolve,
+  onCancel,
+}: MergeConflictDialogProps) {
+  const conflicting = FIELDS.filter((field) => (mine[field] || "") !== (theirs[field] || ""));
+
+  // Default to the other user's value unless this field was edited here
+  const [choices, setChoices] = useState<Record<string, Choice>>(() =>
+    Object.fromEntries(
+      conflicting.map((field) => [field, (mine[field] || "") === (base[field] || "") ? "theirs" : "mine"])
+    )
+  );
+
+  const handleSave = () => {
+    const merged = { ...theirs };
+    conflicting.forEach((field) => {
+      if (choices[field] === "mine") {
+        merged[field] = mine[field];
+      }
+    });
+    onResolve(merged);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/75 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg p-4 md:p-6 max-w-2xl w-full max-h-full overflow-y-auto">
+        <h3 className="text-lg font-semibold">Someone else changed this return</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Choose which value to keep for each field, then save.
+        </p>
+
+        <div className="flex flex-col gap-4">
+          {conflicting.map((field) => (
+            <div key={field} className="flex flex-col gap-2">
+              <span className="text-sm font-medium">{FIELD_LABELS[field]}</span>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {(["mine", "theirs"] as Choice[]).map((choice) => (
+                  <button
+                    key={choice}
+                    type="button"
+                    onClick={() => setChoices((prev) => ({ ...prev, [field]: choice }))}
+                    className={`text-left rounded-md border p-2 text-sm whitespace-pre-wrap ${
+                      choices[field] === choice ? "border-primary bg-primary/10" : "border-gray-200"
+                    }`}
+                  >
+                    <span className="block text-xs text-gray-500 mb-1">
+                      {choice === "mine" ? "Your change" : "Their change"}
+                    </span>
+                    {display(choice === "mine" ? mine[field] : theirs[field])}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+          {conflicting.length === 0 && (
+            <p className="text-sm text-gray-500">Their changes match yours.</p>
+          )}
+        </div>
+
+        <div className="flex gap-2 justify-end mt-6">
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave}>Save merged</Button>
+        </div>
+      </div>
+    </div>
+  );
+}
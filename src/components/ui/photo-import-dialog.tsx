@@ -0,0 +1,168 @@
+import { useEffect, useRef, useState } from "react";
+import { X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { decodeTypedCode, getDecoder, type DecodedBarcode, type Symbology } from "@/lib/barcode-decoders";
+import { importPhoto, importedFileName, type ImportedPhoto } from "@/lib/photo-import";
+
+export type ImportedGalleryPhoto = {
+  barcode: DecodedBarcode;
+  fileName: string;
+  blob: Blob;
+};
+
+type PhotoImportDialogProps = {
+  files: File[];
+  acceptedFormats: Symbology[];
+  onImport: (photos: ImportedGalleryPhoto[]) => void;
+  onClose: () => void;
+};
+
+type ImportRow = {
+  id: string;
+  name: string; // Original file name
+  status: "processing" | "ready" | "error";
+  photo?: ImportedPhoto;
+  preview?: string;
+  code: string; // Pre-filled from a detected barcode, otherwise typed in
+  error?: string;
+};
+
+/** Barcode for a row - the detected one while its code is unchanged, otherwise the typed code */
+function rowBarcode(row: ImportRow, acceptedFormats: Symbology[]) {
+  const detected = row.photo?.barcode;
+  if (detected && row.code === detected.value) return { barcode: detected, error: null };
+  return decodeTypedCode(row.code, acceptedFormats);
+}
+
+/** Review imported photos, with barcodes found in them pre-filled, before adding them to the gallery */
+export default function PhotoImportDialog({ files, acceptedFormats, onImport, onClose }: PhotoImportDialogProps) {
+  const [rows, setRows] = useState<ImportRow[]>(() =>
+    files.map((file, i) => ({ id: `${i}-${file.name}`, name: file.name, status: "processing", code: "" }))
+  );
+  const previewsRef = useRef<string[]>([]);
+  // Files are only scanned once, with the formats accepted when the dialog opened
+  const acceptedRef = useRef(acceptedFormats);
+
+  const updateRow = (id: string, changes: Partial<ImportRow>) => {
+    setRows((s) => s.map((row) => (row.id === id ? { ...row, ...changes } : row)));
+  };
+
+  // Process one file at a time - decoding several full-size photos at once is slow on phones
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      for (const [i, file] of files.entries()) {
+        const id = `${i}-${file.name}`;
+        try {
+          const photo = await importPhoto(file, acceptedRef.current);
+          if (cancelled) return;
+          const preview = URL.createObjectURL(photo.blob);
+          previewsRef.current.push(preview);
+          updateRow(id, { status: "ready", photo, preview, code: photo.barcode?.value ?? "" });
+        } catch (error) {
+          if (cancelled) return;
+          updateRow(id, { status: "error", error: error instanceof Error ? error.message : "Could not import photo" });
+        }
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [files]);
+
+  useEffect(() => {
+    const previews = previewsRef.current;
+    return () => previews.forEach((url) => URL.revokeObjectURL(url));
+  }, []);
+
+  const ready = rows.filter((row) => row.status === "ready");
+  const processing = rows.some((row) => row.status === "processing");
+  const resolved = ready.map((row) => ({ row, ...rowBarcode(row, acceptedFormats) }));
+  const canImport = !processing && resolved.length > 0 && resolved.every((r) => r.barcode);
+
+  const handleImport = () => {
+    if (!canImport) return;
+    onImport(
+      resolved.map(({ row, barcode }) => ({
+        barcode: barcode!,
+        fileName: importedFileName(barcode!, row.photo!),
+        blob: row.photo!.blob,
+      }))
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-75 flex items-center justify-center md:block overflow-y-auto">
+      <div className="bg-white rounded-lg p-4 md:p-6 max-w-2xl w-full mx-4 md:mx-auto md:my-8 flex flex-col gap-3 text-left">
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-semibold">Import photos</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 text-2xl">
+            ×
+          </button>
+        </div>
+        <p className="text-sm text-gray-600">
+          Codes found in the photos are filled in. Type the code for any photo without a readable barcode.
+        </p>
+
+        <ul className="divide-y rounded-md border max-h-[60vh] overflow-y-auto">
+          {rows.map((row) => {
+            const { barcode, error } = row.status === "ready" ? rowBarcode(row, acceptedFormats) : { barcode: null, error: null };
+            return (
+              <li key={row.id} className="flex items-center gap-3 px-3 py-2">
+                {row.preview ? (
+                  <img src={row.preview} alt={row.name} className="w-16 h-16 object-cover rounded-sm shrink-0" />
+                ) : (
+                  <div className="w-16 h-16 rounded-sm bg-gray-100 shrink-0" />
+                )}
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="text-xs text-gray-500 truncate">{row.name}</div>
+                  {row.status === "processing" && <div className="text-sm text-gray-500">Reading photo...</div>}
+                  {row.status === "error" && <div className="text-sm text-red-600">{row.error}</div>}
+                  {row.status === "ready" && (
+                    <>
+                      <Input
+                        className="h-8"
+                        autoComplete="off"
+                        placeholder="Type the code"
+                        value={row.code}
+                        onChange={(e) => updateRow(row.id, { code: e.target.value })}
+                        aria-invalid={!barcode}
+                      />
+                      <div className={`text-xs ${barcode ? "text-green-700" : "text-red-600"}`}>
+                        {barcode
+                          ? `${getDecoder(barcode.symbology)?.label ?? "Code"}${row.photo?.barcode === barcode ? " found in photo" : ""}`
+                          : error ?? "No barcode found - type the code"}
+                      </div>
+                    </>
+                  )}
+                </div>
+                {row.status !== "processing" && (
+                  <button
+                    onClick={() => setRows((s) => s.filter((r) => r.id !== row.id))}
+                    className="p-1 rounded-full text-gray-500 hover:bg-gray-100"
+                    aria-label="Remove photo"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="flex gap-2 justify-end">
+          <button className="px-3 py-2 bg-gray-500 text-white rounded" onClick={onClose}>
+            Cancel
+          </button>
+          <button
+            className="px-3 py-2 bg-green-500 text-white rounded disabled:opacity-50"
+            onClick={handleImport}
+            disabled={!canImport}
+          >
+            Add {resolved.length} {resolved.length === 1 ? "photo" : "photos"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
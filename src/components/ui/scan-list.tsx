@@ -0,0 +1,123 @@
+import { Camera, Minus, Plus, X } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getDecoder, type DecodedBarcode } from "@/lib/barcode-decoders";
+import {
+  CONDITION_GRADES,
+  DAMAGE_TYPES,
+  lineItemKey,
+  scanLineBarcode,
+  type ConditionGrade,
+  type DamageType,
+  type DraftLineItem,
+} from "@/lib/line-items";
+
+type ScanListProps = {
+  lines: DraftLineItem[];
+  onChange: (key: string, changes: Partial<Pick<DraftLineItem, "quantity" | "condition" | "damageType">>) => void;
+  onRemove: (key: string) => void;
+  onCapture: (barcode: DecodedBarcode) => void;
+};
+
+// Select items can't have an empty value
+const NONE = "none";
+
+export default function ScanList({ lines, onChange, onRemove, onCapture }: ScanListProps) {
+  if (lines.length === 0) return null;
+
+  const totalQuantity = lines.reduce((sum, line) => sum + line.quantity, 0);
+
+  return (
+    <div className="mt-4 space-y-2 text-left">
+      <div className="text-sm text-gray-600">
+        Items: {lines.length} {lines.length === 1 ? "line" : "lines"}, {totalQuantity}{" "}
+        {totalQuantity === 1 ? "copy" : "copies"}
+      </div>
+      <ul className="divide-y rounded-md border">
+        {lines.map((line) => {
+          const key = lineItemKey(line.code, line.addOn);
+          const photos = line.photoIds.length;
+          return (
+            <li key={key} className="flex flex-wrap items-center gap-2 px-3 py-2">
+              <div className="flex-1 min-w-[10rem]">
+                <div className="font-mono text-sm break-all">
+                  {line.code}
+                  {line.addOn && <span className="text-gray-500"> +{line.addOn}</span>}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {getDecoder(line.symbology)?.label}
+                  {photos > 0 && ` · ${photos} ${photos === 1 ? "photo" : "photos"}`}
+                </div>
+              </div>
+              <Select
+                value={line.condition ?? NONE}
+                onValueChange={(value) =>
+                  onChange(key, { condition: value === NONE ? undefined : (value as ConditionGrade) })
+                }
+              >
+                <SelectTrigger className="h-8 w-28" aria-label="Condition">
+                  <SelectValue placeholder="Condition" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Condition</SelectItem>
+                  {CONDITION_GRADES.map((grade) => (
+                    <SelectItem key={grade.id} value={grade.id}>
+                      {grade.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={line.damageType ?? NONE}
+                onValueChange={(value) =>
+                  onChange(key, { damageType: value === NONE ? undefined : (value as DamageType) })
+                }
+              >
+                <SelectTrigger className="h-8 w-28" aria-label="Damage type">
+                  <SelectValue placeholder="Damage" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>No damage</SelectItem>
+                  {DAMAGE_TYPES.map((type) => (
+                    <SelectItem key={type.id} value={type.id}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <button
+                className="p-1 rounded border disabled:opacity-50"
+                onClick={() => onChange(key, { quantity: line.quantity - 1 })}
+                disabled={line.quantity <= 1}
+                aria-label="Decrease quantity"
+              >
+                <Minus className="h-4 w-4" />
+              </button>
+              <span className="w-8 text-center font-semibold">{line.quantity}</span>
+              <button
+                className="p-1 rounded border"
+                onClick={() => onChange(key, { quantity: line.quantity + 1 })}
+                aria-label="Increase quantity"
+              >
+                <Plus className="h-4 w-4" />
+              </button>
+              <button
+                className="p-1 rounded bg-green-500 text-white"
+                onClick={() => onCapture(scanLineBarcode(line))}
+                aria-label="Add photo"
+              >
+                <Camera className="h-4 w-4" />
+              </button>
+              <button
+                className="p-1 rounded bg-black/50 hover:bg-black/70 text-white"
+                onClick={() => onRemove(key)}
+                aria-label="Remove line"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { useReferenceData } from "@/hooks/use-reference-data";
 
 type SearchProps = {
   search: string;
@@ -37,6 +38,8 @@ function Search({
   assessedFilter = "All",
   setAssessedFilter,
 }: SearchProps) {
+  const reference = useReferenceData();
+
   const handleSearch = (e: React.ChangeEvent<HTMLInputElement>) => {
     setSearch(e.target.value);
   };
@@ -109,11 +112,12 @@ function Search({
           </SelectTrigger>
           <SelectContent>
             <SelectItem value="All">Team: All</SelectItem>
-            <SelectItem value="Uk Sales">Team: Uk Sales</SelectItem>
-            <SelectItem value="Export">Team: Export</SelectItem>
-            <SelectItem value="Supermarket">Team: Supermarket</SelectItem>
-            <SelectItem value="Amazon">Team: Amazon</SelectItem>
-            <SelectItem value="Exceptions">Team: Exceptions</SelectItem>
+            {reference.team.map((team) => (
+              <SelectItem key={team.value} value={team.value}>
+                Team: {team.label}
+                {team.retired ? " (retired)" : ""}
+              </SelectItem>
+            ))}
           </SelectContent>
         </Select>
         </div>
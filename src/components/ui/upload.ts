@@ -1,39 +1,32 @@
-import { supabase } from "@/lib/supabaseClient";
 import type { GalleryItem } from "@/components/ui/gallery";
 import { validateFileSize, validateFileType, validateImageContent } from "@/lib/validation";
 import { logger } from "@/lib/logger";
-
-const RAW_BUCKET = String(import.meta.env.VITE_SUPABASE_BUCKET ?? "").trim();
-if (!RAW_BUCKET) {
-  throw new Error(
-    "Missing VITE_SUPABASE_BUCKET env var. Set it to the storage bucket name (e.g. '123456789')."
-  );
-}
-
-/** Normalize bucket value — accept plain name or a copied URL and return only the bucket name */
-function normalizeBucket(raw: string) {
-  let b = raw.trim();
-  try {
-    if (b.includes("://")) {
-      const u = new URL(b);
-      const parts = u.pathname.split("/").filter(Boolean);
-      if (parts.length) b = parts[parts.length - 1];
-    } else if (b.includes("/")) {
-      b = b.split("/").filter(Boolean).pop() ?? b;
-    }
-  } catch {
-    /* fallback to raw */
-  }
-  return b;
-}
-
-const DEFAULT_BUCKET = normalizeBucket(RAW_BUCKET);
-
-function sanitizeFolder(name = "") {
-  return String(name)
-    .trim()
-    .replace(/[^0-9A-Za-z_\-]/g, "_");
-}
+import { isbnFileCode, toISBN13 } from "@/lib/isbn";
+import {
+  returnsRepository,
+  type ReturnAction,
+  type ReturnRecordUpdate,
+  type ReturnStatus,
+  type ReturnTeam,
+} from "@/lib/returns-repository";
+import { lineItemsRepository, resolveLineItems, type DraftLineItem } from "@/lib/line-items";
+import { mapWithConcurrency, uploadStorageObject, type UploadProgressHandler } from "@/lib/storage-upload";
+import { removeStorageObjects } from "@/lib/storage-maintenance";
+import { isWorkflowStatus } from "@/lib/status-workflow";
+import { STORAGE_LAYOUT, imageReference, invoiceFolder, sanitizeFolder } from "@/lib/photo-storage";
+import { getStorageProvider } from "@/lib/storage-provider";
+
+// Photos uploaded at once - enough to keep a mobile connection busy without starving each upload
+const UPLOAD_CONCURRENCY = 3;
+
+/** What an upload reads from a gallery item or queued draft, plus the invoice it belongs to when known */
+export type UploadableImage = Pick<
+  GalleryItem,
+  "id" | "isbn" | "symbology" | "addOn" | "fileName" | "blob" | "originalBlob"
+> & {
+  invoiceNumber?: string;
+  accountNumber?: string;
+};
 
 function sanitizeBase(name = "") {
   return String(name)
@@ -43,36 +36,40 @@ function sanitizeBase(name = "") {
     .replace(/_+/g, "_");
 }
 
+/** File name prefix - canonical ISBN-13 (plus any add-on) for books, otherwise the code without separators */
+function fileCode(item: UploadableImage) {
+  const isbn13 = !item.symbology || item.symbology === "isbn" ? toISBN13(item.isbn) : null;
+  if (isbn13) return isbnFileCode(isbn13, item.addOn);
+  // "_" separates the code from the timestamp, so it can't appear in the code
+  return sanitizeBase(item.isbn || item.fileName || "image").replace(/_+/g, "-");
+}
+
 function pickExt(mime = "") {
   if (!mime) return "jpg";
+  if (mime.includes("avif")) return "avif";
   if (mime.includes("png")) return "png";
   if (mime.includes("webp")) return "webp";
   if (mime.includes("gif")) return "gif";
   return "jpg";
 }
 
-/**
- * Upload a single gallery item to a Supabase storage bucket.
- * - bucket: item.bucketName || VITE_SUPABASE_BUCKET
- * - folder: invoice number (item.invoiceNumber) or item.isbn or "unknown"
- * - filename: <isbn>_<randomDigits>_<timestamp>.<ext>
- */
-export async function uploadGalleryItem(item: GalleryItem) {
+/** Check size, type and content of an image before it is uploaded */
+async function validateImageBlob(blob: Blob) {
   // Validate file size
-  const sizeValidation = validateFileSize(item.blob.size);
+  const sizeValidation = validateFileSize(blob.size);
   if (!sizeValidation.valid) {
     throw new Error(sizeValidation.error || "File validation failed");
   }
 
   // Validate file type
-  const typeValidation = validateFileType(item.blob.type);
+  const typeValidation = validateFileType(blob.type);
   if (!typeValidation.valid) {
     throw new Error(typeValidation.error || "File type validation failed");
   }
 
   // Validate image content (check magic numbers)
   try {
-    const contentValidation = await validateImageContent(item.blob);
+    const contentValidation = await validateImageContent(blob);
     if (!contentValidation.valid) {
       throw new Error(contentValidation.error || "Image content validation failed");
     }
@@ -80,12 +77,21 @@ export async function uploadGalleryItem(item: GalleryItem) {
     logger.error("Image content validation error:", error);
     throw new Error("Failed to validate image file");
   }
+}
 
-  const rawBucket = String((item as any).bucketName ?? DEFAULT_BUCKET).trim();
-  const bucket = normalizeBucket(rawBucket);
-  if (!bucket) throw new Error("No bucket specified for upload.");
+async function uploadFile(destPath: string, file: File, onProgress?: UploadProgressHandler) {
+  try {
+    await uploadStorageObject(getStorageProvider(), destPath, file, onProgress);
+  } catch (uploadError) {
+    logger.error("Storage upload error:", uploadError);
+    throw new Error("Failed to upload file. Please try again.");
+  }
+
+  return imageReference(destPath);
+}
 
-  // Create nested folder structure: month_year/day/time_invoiceNumber
+/** Folder for the dated layout: month_year/day/time_invoiceNumber */
+function datedFolder(rawFolder: string) {
   const now = new Date();
   const day = String(now.getDate()).padStart(2, '0');
   const month = String(now.getMonth() + 1).padStart(2, '0'); // getMonth() returns 0-11
@@ -105,19 +111,38 @@ export async function uploadGalleryItem(item: GalleryItem) {
   const dayFolder = day;
   
   // Third level: time_invoiceNumber (e.g., "10.30pm_12345")
-  // @ts-ignore allow invoiceNumber if present on item
-  const rawFolder = (item as any).invoiceNumber ?? item.isbn ?? "unknown";
-  const invoiceFolder = sanitizeFolder(String(rawFolder));
   // Use underscore to separate time and invoice number (time has dots and am/pm)
-  const timeInvoiceFolder = `${timePrefix}_${invoiceFolder}`;
+  const timeInvoiceFolder = `${timePrefix}_${sanitizeFolder(rawFolder)}`;
   
   // Combined folder path: month_year/day/time_invoiceNumber
-  const folder = `${monthYearFolder}/${dayFolder}/${timeInvoiceFolder}`;
+  return `${monthYearFolder}/${dayFolder}/${timeInvoiceFolder}`;
+}
+
+/**
+ * Upload a single gallery item through the configured storage provider.
+ * - bucket: the provider's bucket (VITE_SUPABASE_BUCKET by default)
+ * - folder: <account>/<invoice> in the invoice layout, otherwise month_year/day/time_<invoice number or isbn>
+ * - filename: <isbn-13>[-<addon>]_<timestamp>-<random>.<ext> (or <code>_<timestamp>-<random>.<ext> for other barcodes)
+ * - annotated photos also keep the unannotated original under <folder>/originals/<filename>
+ * onProgress reports bytes sent across the photo and its original
+ */
+export async function uploadGalleryItem(item: UploadableImage, onProgress?: UploadProgressHandler) {
+  await validateImageBlob(item.blob);
+  if (item.originalBlob) await validateImageBlob(item.originalBlob);
+
+  const { bucket } = getStorageProvider();
 
-  // build filename: isbn + random numbers + timestamp
-  const isbnBase = sanitizeBase(item.isbn ?? item.fileName ?? "image");
+  // invoiceNumber / accountNumber are attached by the capture screen when known
+  const { invoiceNumber, accountNumber } = item;
+  const folder =
+    STORAGE_LAYOUT === "invoice" && invoiceNumber
+      ? invoiceFolder(accountNumber ?? "", invoiceNumber)
+      : datedFolder(String(invoiceNumber ?? item.isbn ?? "unknown"));
+
+  // build filename: isbn + timestamp, plus a random part since photos of one code can upload in the same millisecond
+  const isbnBase = fileCode(item);
   const ext = pickExt(item.blob.type);
-  const timestamp = Date.now();
+  const timestamp = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
   const fileName = `${isbnBase}_${timestamp}.${ext}`;
 
   // ensure destPath has no leading slash
@@ -127,42 +152,52 @@ export async function uploadGalleryItem(item: GalleryItem) {
     type: item.blob.type || `image/${ext}`,
   });
 
-  const { error: uploadError } = await supabase.storage
-    .from(bucket)
-    .upload(destPath, file, { contentType: file.type, upsert: false });
+  const totalBytes = item.blob.size + (item.originalBlob?.size ?? 0);
+  const publicUrl = await uploadFile(destPath, file, (loaded) => onProgress?.(loaded, totalBytes));
 
-  if (uploadError) {
-    logger.error("Supabase storage upload error:", uploadError);
-    throw new Error("Failed to upload file. Please try again.");
+  if (!item.originalBlob) {
+    return { bucket, destPath, publicUrl, fileName };
   }
 
-  const { data: urlData } = supabase.storage
-    .from(bucket)
-    .getPublicUrl(destPath);
-  const publicUrl = urlData?.publicUrl ?? null;
+  const originalExt = pickExt(item.originalBlob.type);
+  const originalFileName = `${isbnBase}_${timestamp}.${originalExt}`;
+  const originalPath = `${folder}/originals/${originalFileName}`.replace(/^\/+/, "");
+  const originalUrl = await uploadFile(
+    originalPath,
+    new File([item.originalBlob], originalFileName, {
+      type: item.originalBlob.type || `image/${originalExt}`,
+    }),
+    (loaded) => onProgress?.(item.blob.size + loaded, totalBytes)
+  );
 
-  return { bucket, destPath, publicUrl, fileName };
+  return { bucket, destPath, publicUrl, fileName, originalPath, originalUrl };
 }
 
-/** Upload multiple items sequentially */
-export async function uploadGalleryItems(items: GalleryItem[]) {
-  const results: Array<{
-    itemId?: string;
-    bucket?: string;
-    destPath?: string;
-    publicUrl?: string;
-    fileName?: string;
-    error?: unknown;
-  }> = [];
-  for (const it of items) {
+type GalleryUploadResult = {
+  itemId?: string;
+  bucket?: string;
+  destPath?: string;
+  publicUrl?: string; // Stored in the images column - the object path rather than a URL for a private store
+  fileName?: string;
+  originalPath?: string; // Unannotated original of an annotated photo
+  originalUrl?: string;
+  error?: unknown;
+};
+
+/** Upload multiple items, a few at a time - results are in the same order as items */
+export async function uploadGalleryItems(
+  items: UploadableImage[],
+  onProgress?: (itemId: string, loaded: number, total: number) => void
+) {
+  const results = await mapWithConcurrency(items, UPLOAD_CONCURRENCY, async (it): Promise<GalleryUploadResult> => {
     try {
-      const res = await uploadGalleryItem(it);
-      results.push({ itemId: it.id, ...res });
+      const res = await uploadGalleryItem(it, (loaded, total) => onProgress?.(it.id, loaded, total));
+      return { itemId: it.id, ...res };
     } catch (err) {
       logger.error("Upload error for item:", it.id, err);
-      results.push({ itemId: it.id, error: err });
+      return { itemId: it.id, error: err };
     }
-  }
+  });
   logger.log("uploadGalleryItems results:", results.length, "items processed");
   return results;
 }
@@ -176,68 +211,116 @@ export type FormData = {
 
 export type UploadResult = Awaited<ReturnType<typeof uploadGalleryItems>>[number];
 
-/** Insert form data and successful upload publicUrls into 'returns' table */
+/**
+ * Delete the files uploaded for a submission whose database write failed, so storage holds no orphans
+ * Files the return already references (e.g. the record was saved but its line items weren't) are kept for reuse.
+ * Returns the results that were removed - their images have to be uploaded again on retry
+ */
+export async function rollbackUploads(invoiceNumber: string, uploadResults: UploadResult[]): Promise<UploadResult[]> {
+  const uploaded = uploadResults.filter((r) => !r.error && r.bucket && r.destPath);
+  if (uploaded.length === 0) return [];
+
+  const invoiceNum = Number(invoiceNumber);
+  const existing = Number.isInteger(invoiceNum) && invoiceNum > 0 ? await returnsRepository.getByInvoice(invoiceNum) : null;
+  const orphaned = uploaded.filter((r) => !r.publicUrl || !existing?.images.includes(r.publicUrl));
+
+  const paths = orphaned.flatMap((r) => (r.originalPath ? [r.destPath!, r.originalPath] : [r.destPath!]));
+  const deleted = new Set(await removeStorageObjects(paths));
+  const removed = orphaned.filter((r) => deleted.has(r.destPath!));
+  logger.log("Rolled back", removed.length, "of", uploaded.length, "uploaded files");
+  return removed;
+}
+
+/**
+ * Save the captured line items against a return, with photo ids swapped for their uploaded URLs
+ * submissionId stays the same across retries of one submission, so lines saved by an earlier attempt aren't added twice
+ */
+async function saveLineItems(
+  invoiceNumber: number,
+  lineItems: DraftLineItem[],
+  uploadResults: UploadResult[],
+  submissionId: string
+) {
+  await lineItemsRepository.addToReturn(invoiceNumber, resolveLineItems(lineItems, uploadResults), submissionId);
+}
+
+/**
+ * Insert a standard customer return into 'returns-app' so it goes through the Sales workflow
+ * Same formats as overstock, but the customer's reason for the return is required
+ */
 export async function insertReturnData(
   formData: FormData,
-  uploadResults: UploadResult[]
+  uploadResults: UploadResult[],
+  lineItems: DraftLineItem[] = [],
+  submissionId: string = crypto.randomUUID()
 ) {
   // Import validation functions
-  const { validateAccountNumber, validateRNumber, sanitizeTextInput } = await import("@/lib/validation");
+  const { validateInvoiceNumber, validateAccountNumber, validateRNumber, validateNumericString, sanitizeTextInput } =
+    await import("@/lib/validation");
 
   // Validate inputs
-  const rNumberValidation = validateRNumber(formData.rNumber);
-  if (!rNumberValidation.valid) {
-    throw new Error(rNumberValidation.error || "Invalid R number");
+  const invoiceValidation = validateInvoiceNumber(formData.creditNumber, true);
+  if (!invoiceValidation.valid) {
+    throw new Error(invoiceValidation.error || "Invalid invoice number");
   }
 
-  const accNumberValidation = validateAccountNumber(formData.accNumber);
+  const accNumberValidation = validateAccountNumber(formData.accNumber, true);
   if (!accNumberValidation.valid) {
     throw new Error(accNumberValidation.error || "Invalid account number");
   }
 
-  // Sanitize reason if provided
-  let sanitizedReason = formData.reason;
-  if (formData.reason) {
-    const reasonValidation = sanitizeTextInput(formData.reason);
-    if (!reasonValidation.valid) {
-      throw new Error(reasonValidation.error || "Invalid reason text");
-    }
-    sanitizedReason = reasonValidation.sanitized || formData.reason;
+  const rNumberValidation = validateRNumber(formData.rNumber, true);
+  if (!rNumberValidation.valid) {
+    throw new Error(rNumberValidation.error || "Invalid R number");
+  }
+
+  if (!formData.reason || formData.reason.trim() === "") {
+    throw new Error("Please enter the customer's reason for the return");
+  }
+  const reasonValidation = sanitizeTextInput(formData.reason);
+  if (!reasonValidation.valid) {
+    throw new Error(reasonValidation.error || "Invalid reason text");
   }
+  const sanitizedReason = reasonValidation.sanitized || formData.reason;
 
-  const successful = uploadResults
+  const imageUrls = uploadResults
     .filter((r) => !r.error && r.publicUrl)
-    .map((r) => ({
-      credit_number: formData.creditNumber,
-      r_number: rNumberValidation.sanitized || formData.rNumber,
-      acc_number: accNumberValidation.sanitized || formData.accNumber,
-      reason: sanitizedReason,
-      image_url: r.publicUrl,
-      file_name: r.fileName,
-    }));
-
-  if (successful.length === 0) {
+    .map((r) => r.publicUrl!);
+
+  // Line items scanned without photos are enough to log the return
+  if (imageUrls.length === 0 && lineItems.length === 0) {
     throw new Error("No successful uploads to insert");
   }
 
-  const { data, error } = await supabase.from("returns").insert(successful);
-  
-  if (error) {
-    logger.error("Supabase insert error:", error);
-    
-    if (error.code === "42501") {
-      throw new Error("You do not have permission to perform this action.");
-    }
-    
-    // Handle duplicate key constraint violation (PostgreSQL error code 23505)
-    if (error.code === "23505") {
-      throw new Error("This record already exists. Please check your input and try again.");
-    }
-    
-    throw new Error("Failed to save data. Please try again.");
+  const invoiceNumValidation = validateNumericString(invoiceValidation.sanitized || formData.creditNumber);
+  const rNumValidation = validateNumericString(rNumberValidation.sanitized || formData.rNumber);
+
+  if (!invoiceNumValidation.valid || !rNumValidation.valid) {
+    throw new Error("Invoice number and R number must be valid numbers");
   }
 
-  return data;
+  const invoiceNum = invoiceNumValidation.number!;
+
+  // Check if a record with this invoice number already exists
+  const existing = await returnsRepository.getByInvoice(invoiceNum);
+
+  if (existing) {
+    logger.log("Record exists, appending images to existing record");
+    const rows = await returnsRepository.appendImages(existing, imageUrls, sanitizedReason);
+    await saveLineItems(invoiceNum, lineItems, uploadResults, submissionId);
+    return rows;
+  }
+
+  const rows = await returnsRepository.create({
+    InvoiceNumber: invoiceNum,
+    rNumber: rNumValidation.number!,
+    accountNumber: accNumberValidation.sanitized || formData.accNumber,
+    images: imageUrls,
+    warehouse_notes: sanitizedReason, // Customer's reason, shown to Sales as warehouse notes
+    source: "returns",
+  });
+  await saveLineItems(invoiceNum, lineItems, uploadResults, submissionId);
+  return rows;
 }
 
 /** Insert overstock data with public URLs, invoice number, account number, and returns number into 'returns-app' table */
@@ -246,7 +329,9 @@ export async function insertOverstockData(
   accountNumber: string,
   returnsNumber: string,
   uploadResults: UploadResult[],
-  reason?: string
+  reason?: string,
+  lineItems: DraftLineItem[] = [],
+  submissionId: string = crypto.randomUUID()
 ) {
   // Import validation functions
   const { validateInvoiceNumber, validateAccountNumber, validateRNumber, validateNumericString } = await import("@/lib/validation");
@@ -272,7 +357,7 @@ export async function insertOverstockData(
     .filter((r) => !r.error && r.publicUrl)
     .map((r) => r.publicUrl!);
 
-  if (imageUrls.length === 0) {
+  if (imageUrls.length === 0 && lineItems.length === 0) {
     throw new Error("No successful uploads to insert");
   }
 
@@ -298,108 +383,27 @@ export async function insertOverstockData(
   }
 
   // Check if a record with this invoice number already exists
-  const { data: existingData, error: checkError } = await supabase
-    .from("returns-app")
-    .select("images, warehouse_notes")
-    .eq("InvoiceNumber", invoiceNum)
-    .single();
+  const existing = await returnsRepository.getByInvoice(invoiceNum);
 
-  if (checkError && checkError.code !== "PGRST116") {
-    // PGRST116 is "not found" - that's fine, we'll insert new
-    // Any other error is a problem
-    logger.error("Error checking for existing record:", checkError);
-    throw new Error("Failed to check for existing record. Please try again.");
-  }
-
-  if (existingData) {
+  if (existing) {
     // Record exists - append new images to existing ones
     logger.log("Record exists, appending images to existing record");
-    
-    // Parse existing images (handle both array and JSON string)
-    let existingImages: string[] = [];
-    if (existingData.images) {
-      if (typeof existingData.images === 'string') {
-        try {
-          existingImages = JSON.parse(existingData.images);
-        } catch {
-          existingImages = [existingData.images];
-        }
-      } else if (Array.isArray(existingData.images)) {
-        existingImages = existingData.images;
-      }
-    }
-    
-    // Merge images, avoiding duplicates
-    const allImages = [...existingImages];
-    imageUrls.forEach(url => {
-      if (!allImages.includes(url)) {
-        allImages.push(url);
-      }
-    });
-    
-    // Merge warehouse notes (append new reason if provided)
-    let updatedWarehouseNotes = existingData.warehouse_notes || "";
-    if (sanitizedReason) {
-      if (updatedWarehouseNotes) {
-        updatedWarehouseNotes = `${updatedWarehouseNotes}\n${sanitizedReason}`;
-      } else {
-        updatedWarehouseNotes = sanitizedReason;
-      }
-    }
-    
-    // Update the existing record
-    const { data, error } = await supabase
-      .from("returns-app")
-      .update({
-        images: allImages,
-        warehouse_notes: updatedWarehouseNotes,
-      })
-      .eq("InvoiceNumber", invoiceNum)
-      .select();
-    
-    if (error) {
-      logger.error("Supabase update error:", error);
-      if (error.code === "42501") {
-        throw new Error("You do not have permission to perform this action. Please contact your administrator.");
-      }
-      throw new Error("Failed to update existing record. Please try again.");
-    }
-    
-    logger.log(`Successfully appended ${imageUrls.length} image(s) to existing record. Total images: ${allImages.length}`);
-    return data;
+    const rows = await returnsRepository.appendImages(existing, imageUrls, sanitizedReason);
+    await saveLineItems(invoiceNum, lineItems, uploadResults, submissionId);
+    return rows;
   }
 
   // No existing record - insert new one
-  const rowData = {
+  const rows = await returnsRepository.create({
     InvoiceNumber: invoiceNum,
     rNumber: rNum,
     accountNumber: accountValidation.sanitized || accountNumber,
     images: imageUrls,
-    created_at: new Date().toISOString(), // Full ISO string with date and time
-    sales_notes: "",
     warehouse_notes: sanitizedReason, // Use reason as warehouse_notes
-    status: "Logged",
-    action: null,
-    team: null,
-  };
-
-  const { data, error } = await supabase
-    .from("returns-app")
-    .insert(rowData)
-    .select();
-
-  if (error) {
-    logger.error("Supabase insert error:", error);
-    
-    // Provide user-friendly error messages
-    if (error.code === "42501") {
-      throw new Error("You do not have permission to perform this action. Please contact your administrator.");
-    }
-    
-    throw new Error("Failed to save data. Please try again.");
-  }
-
-  return data;
+    source: "overstock",
+  });
+  await saveLineItems(invoiceNum, lineItems, uploadResults, submissionId);
+  return rows;
 }
 
 /** Insert damages data with public URLs, invoice number, and account number into 'returns-app' table (no returns number) */
@@ -407,7 +411,9 @@ export async function insertDamagesData(
   invoiceNumber: string,
   accountNumber: string,
   uploadResults: UploadResult[],
-  reason?: string
+  reason?: string,
+  lineItems: DraftLineItem[] = [],
+  submissionId: string = crypto.randomUUID()
 ) {
   // Import validation functions
   const { validateInvoiceNumber, validateAccountNumber, validateNumericString } = await import("@/lib/validation");
@@ -428,7 +434,7 @@ export async function insertDamagesData(
     .filter((r) => !r.error && r.publicUrl)
     .map((r) => r.publicUrl!);
 
-  if (imageUrls.length === 0) {
+  if (imageUrls.length === 0 && lineItems.length === 0) {
     throw new Error("No successful uploads to insert");
   }
 
@@ -452,108 +458,27 @@ export async function insertDamagesData(
   }
 
   // Check if a record with this invoice number already exists
-  const { data: existingData, error: checkError } = await supabase
-    .from("returns-app")
-    .select("images, warehouse_notes")
-    .eq("InvoiceNumber", invoiceNum)
-    .single();
-
-  if (checkError && checkError.code !== "PGRST116") {
-    // PGRST116 is "not found" - that's fine, we'll insert new
-    // Any other error is a problem
-    logger.error("Error checking for existing record:", checkError);
-    throw new Error("Failed to check for existing record. Please try again.");
-  }
+  const existing = await returnsRepository.getByInvoice(invoiceNum);
 
-  if (existingData) {
+  if (existing) {
     // Record exists - append new images to existing ones
     logger.log("Record exists, appending images to existing record");
-    
-    // Parse existing images (handle both array and JSON string)
-    let existingImages: string[] = [];
-    if (existingData.images) {
-      if (typeof existingData.images === 'string') {
-        try {
-          existingImages = JSON.parse(existingData.images);
-        } catch {
-          existingImages = [existingData.images];
-        }
-      } else if (Array.isArray(existingData.images)) {
-        existingImages = existingData.images;
-      }
-    }
-    
-    // Merge images, avoiding duplicates
-    const allImages = [...existingImages];
-    imageUrls.forEach(url => {
-      if (!allImages.includes(url)) {
-        allImages.push(url);
-      }
-    });
-    
-    // Merge warehouse notes (append new reason if provided)
-    let updatedWarehouseNotes = existingData.warehouse_notes || "";
-    if (sanitizedReason) {
-      if (updatedWarehouseNotes) {
-        updatedWarehouseNotes = `${updatedWarehouseNotes}\n${sanitizedReason}`;
-      } else {
-        updatedWarehouseNotes = sanitizedReason;
-      }
-    }
-    
-    // Update the existing record
-    const { data, error } = await supabase
-      .from("returns-app")
-      .update({
-        images: allImages,
-        warehouse_notes: updatedWarehouseNotes,
-      })
-      .eq("InvoiceNumber", invoiceNum)
-      .select();
-    
-    if (error) {
-      logger.error("Supabase update error:", error);
-      if (error.code === "42501") {
-        throw new Error("You do not have permission to perform this action. Please contact your administrator.");
-      }
-      throw new Error("Failed to update existing record. Please try again.");
-    }
-    
-    logger.log(`Successfully appended ${imageUrls.length} image(s) to existing record. Total images: ${allImages.length}`);
-    return data;
+    const rows = await returnsRepository.appendImages(existing, imageUrls, sanitizedReason);
+    await saveLineItems(invoiceNum, lineItems, uploadResults, submissionId);
+    return rows;
   }
 
   // No existing record - insert new one
-  const rowData = {
+  const rows = await returnsRepository.create({
     InvoiceNumber: invoiceNum,
     rNumber: null, // No returns number for damages
     accountNumber: accountValidation.sanitized || accountNumber,
     images: imageUrls,
-    created_at: new Date().toISOString(), // Full ISO string with date and time
-    sales_notes: "",
     warehouse_notes: sanitizedReason, // Use reason as warehouse_notes
-    status: "Logged",
-    action: null,
-    team: null,
-  };
-
-  const { data, error } = await supabase
-    .from("returns-app")
-    .insert(rowData)
-    .select();
-
-  if (error) {
-    logger.error("Supabase insert error:", error);
-    
-    // Provide user-friendly error messages
-    if (error.code === "42501") {
-      throw new Error("You do not have permission to perform this action. Please contact your administrator.");
-    }
-    
-    throw new Error("Failed to save data. Please try again.");
-  }
-
-  return data;
+    source: "damages",
+  });
+  await saveLineItems(invoiceNum, lineItems, uploadResults, submissionId);
+  return rows;
 }
 
 /** Update sales/warehouse notes in the returns-app table */
@@ -562,10 +487,11 @@ export async function updateSalesData(
   updates: {
     sales_notes?: string;
     warehouse_notes?: string;
-    team?: string | null;
-    status?: string | null;
-    action?: string | null;
-  }
+    team?: ReturnTeam | null;
+    status?: ReturnStatus | null;
+    action?: ReturnAction | null;
+  },
+  options: { expectedUpdatedAt?: string | null } = {}
 ) {
   // Import validation
   const { validateNumericString, sanitizeTextInput } = await import("@/lib/validation");
@@ -584,13 +510,7 @@ export async function updateSalesData(
   logger.log("updateSalesData called for invoice:", invoiceNum);
 
   // Build update payload only with explicitly provided fields
-  const payload: {
-    sales_notes?: string;
-    warehouse_notes?: string;
-    team?: string | null;
-    status?: string | null;
-    action?: string | null;
-  } = {};
+  const payload: ReturnRecordUpdate = {};
 
   if (updates.sales_notes !== undefined) {
     const sanitized = sanitizeTextInput(updates.sales_notes);
@@ -618,7 +538,11 @@ export async function updateSalesData(
     if (!sanitized.valid) {
       throw new Error(sanitized.error || "Invalid status value");
     }
-    payload.status = sanitized.sanitized || null;
+    const status = sanitized.sanitized || null;
+    if (status !== null && !isWorkflowStatus(status)) {
+      throw new Error(`Unknown status "${status}"`);
+    }
+    payload.status = status;
   }
   if (updates.action !== undefined) {
     const sanitized = sanitizeTextInput(updates.action || "", 50);
@@ -628,22 +552,8 @@ export async function updateSalesData(
     payload.action = sanitized.sanitized || null;
   }
 
-  // Use Supabase client to update - this handles RLS properly
-  const { data, error } = await supabase
-    .from("returns-app")
-    .update(payload)
-    .eq("InvoiceNumber", invoiceNum)
-    .select();
-
-  if (error) {
-    logger.error("Supabase update error:", error);
-    
-    if (error.code === "42501") {
-      throw new Error("You do not have permission to perform this action.");
-    }
-    
-    throw new Error("Failed to update data. Please try again.");
-  }
+  // Pass expectedUpdatedAt to reject the update if someone else saved first (throws UpdateConflictError)
+  const data = await returnsRepository.update(invoiceNum, payload, options);
 
   logger.log("Update successful! Updated rows:", data?.length || 0);
   
@@ -0,0 +1,20 @@
+import { useEffect, useState } from "react";
+import {
+  getReferenceData,
+  loadReferenceData,
+  subscribeToReferenceData,
+  type ReferenceData,
+} from "@/lib/reference-data";
+
+/** Teams, actions and statuses, kept up to date when an admin changes them */
+export function useReferenceData(): ReferenceData {
+  const [data, setData] = useState<ReferenceData>(getReferenceData);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToReferenceData(setData);
+    loadReferenceData().then(setData);
+    return unsubscribe;
+  }, []);
+
+  return data;
+}
@@ -0,0 +1,237 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { logger, sanitizeErrorMessage } from "@/lib/logger";
+import type { MergeFields } from "@/components/ui/merge-conflict-dialog";
+import { updateSalesData } from "@/components/ui/upload";
+import {
+  hasSameEditableFields,
+  toEditableFields,
+  UpdateConflictError,
+  type ReturnRecord,
+} from "@/lib/returns-repository";
+import { statusAfterFieldChange, validateTransition } from "@/lib/status-workflow";
+
+type ReturnEditorOptions = {
+  defaultStatus: string; // Status shown while no return is open, or for a return without one
+  enforceWorkflow: boolean; // Check status transitions on save and let an action move the status on
+  onSaved?: () => void;
+};
+
+/**
+ * Editing state for the return open in the Sales or Final details panel
+ * Remembers the version that was opened, flags saves made elsewhere while it is open, and opens the merge
+ * dialog when a save is rejected because the return changed
+ */
+export function useReturnEditor({ defaultStatus, enforceWorkflow, onSaved }: ReturnEditorOptions) {
+  const [returnsNumber, setReturnsNumber] = useState("");
+  const [invoiceNumber, setInvoiceNumber] = useState("");
+  const [accountNumber, setAccountNumber] = useState("");
+  const [warehouse_notes, setWarehouseNotes] = useState("");
+  const [sales_notes, setSalesNotes] = useState("");
+  const [allocated, setAllocated] = useState("");
+  const [action, setAction] = useState("");
+  const [status, setStatus] = useState<string>(defaultStatus);
+  const [loading, setLoading] = useState(false);
+  const [selectedItemImages, setSelectedItemImages] = useState<string[]>([]);
+  const [selectedItemAccountNumber, setSelectedItemAccountNumber] = useState<string>("");
+  // Record as it was when opened, and a newer version saved by someone else while it is open
+  const loadedRecordRef = useRef<ReturnRecord | null>(null);
+  const [remoteRecord, setRemoteRecord] = useState<ReturnRecord | null>(null);
+  // Set when a save was rejected because the record changed since it was opened
+  const [conflict, setConflict] = useState<{ base: ReturnRecord; latest: ReturnRecord } | null>(null);
+
+  // Fill the details panel from a record
+  const loadRecord = (item: ReturnRecord) => {
+    loadedRecordRef.current = item;
+    setRemoteRecord(null);
+    setReturnsNumber(item.rNumber ? String(item.rNumber) : "");
+    // Ensure invoice number is stored as string for consistency
+    setInvoiceNumber(String(item.InvoiceNumber || ""));
+    setAccountNumber(item.accountNumber || "");
+    setWarehouseNotes(item.warehouse_notes || "");
+    setSalesNotes(item.sales_notes || "");
+    setAllocated(item.team || "");
+    setAction(item.action || "");
+    setStatus(item.status || defaultStatus);
+    // Store images and account number for display
+    setSelectedItemImages(item.images || []);
+    setSelectedItemAccountNumber(item.accountNumber || "");
+  };
+
+  const handleSelect = (item: ReturnRecord) => {
+    if (item) {
+      logger.log("Item selected");
+      loadRecord(item);
+
+      // Push state to browser history so browser back button works correctly
+      window.history.pushState({ invoiceNumber: item.InvoiceNumber }, '', window.location.pathname);
+    }
+  };
+
+  const handleBack = useCallback(() => {
+    setReturnsNumber("");
+    setInvoiceNumber("");
+    setAccountNumber("");
+    setWarehouseNotes("");
+    setSalesNotes("");
+    setAllocated("");
+    setAction("");
+    setStatus(defaultStatus);
+    setSelectedItemImages([]);
+    setSelectedItemAccountNumber("");
+    loadedRecordRef.current = null;
+    setRemoteRecord(null);
+    setConflict(null);
+  }, [defaultStatus]);
+
+  // Realtime change from the list - flag it if it touches the record currently open
+  const handleRecordChange = (item: ReturnRecord) => {
+    const loaded = loadedRecordRef.current;
+    if (!loaded || item.InvoiceNumber !== loaded.InvoiceNumber) return;
+
+    // New images don't conflict with edits, show them straight away
+    setSelectedItemImages(item.images);
+
+    const current = {
+      warehouse_notes,
+      sales_notes,
+      team: allocated || null,
+      action: action || null,
+      status: status || null,
+    };
+    // Only images or the version changed - nothing to merge, so track the new version silently
+    if (hasSameEditableFields(item, loaded)) {
+      loadedRecordRef.current = item;
+      return;
+    }
+    // Ignore our own save
+    if (hasSameEditableFields(item, current)) return;
+    setRemoteRecord(item);
+  };
+
+  // Handle browser back/forward navigation
+  useEffect(() => {
+    const handlePopState = () => {
+      // When browser back button is pressed, clear the selected item to show list
+      if (invoiceNumber) {
+        handleBack();
+      }
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => {
+      window.removeEventListener('popstate', handlePopState);
+    };
+  }, [invoiceNumber, handleBack]);
+
+  const handleTeamChange = (value: string) => {
+    setAllocated(value);
+  };
+
+  const handleActionChange = (value: string) => {
+    setAction(value);
+    // Setting an action can move the status on (e.g. to "Assessed")
+    if (enforceWorkflow) setStatus((current) => statusAfterFieldChange(current, "action", value) || "");
+  };
+
+  // The workflow rules are checked by ItemDetailsPanel before this is called
+  const handleStatusChange = (value: string) => {
+    setStatus(value);
+  };
+
+  // Save only if the record is unchanged since it was loaded, otherwise open the merge dialog
+  const saveChanges = async (values: MergeFields, expectedUpdatedAt: string | null) => {
+    // Validate the status change against the workflow
+    const blocked = enforceWorkflow
+      ? validateTransition(loadedRecordRef.current?.status, values.status, { team: values.team, action: values.action })
+      : null;
+    if (blocked) {
+      toast.error(`Cannot save: ${blocked}`);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await updateSalesData(invoiceNumber, toEditableFields(values), { expectedUpdatedAt });
+      logger.log("Database updated successfully");
+
+      onSaved?.();
+      toast.success("Updated successfully!");
+
+      // Reset state to default so search shows back up
+      handleBack();
+    } catch (error) {
+      if (error instanceof UpdateConflictError) {
+        setConflict({ base: loadedRecordRef.current ?? error.latest, latest: error.latest });
+        return;
+      }
+      logger.error("Update error in handleUpdate:", error);
+      const errorMessage = sanitizeErrorMessage(error);
+      toast.error(`Error updating notes: ${errorMessage}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUpdate = async () => {
+    // Check if we have an invoice number
+    if (!invoiceNumber) {
+      toast.warning("Please select an item first");
+      return;
+    }
+
+    logger.log("handleUpdate called");
+
+    await saveChanges(
+      { warehouse_notes, sales_notes, team: allocated || null, action: action || null, status: status || null },
+      loadedRecordRef.current?.updated_at ?? null
+    );
+  };
+
+  // Apply the merged values on top of the latest version and save again
+  const handleResolveConflict = async (merged: MergeFields) => {
+    if (!conflict) return;
+    const { latest } = conflict;
+    setConflict(null);
+    loadedRecordRef.current = latest;
+    setWarehouseNotes(merged.warehouse_notes || "");
+    setSalesNotes(merged.sales_notes || "");
+    setAllocated(merged.team || "");
+    setAction(merged.action || "");
+    setStatus(merged.status || defaultStatus);
+
+    await saveChanges(merged, latest.updated_at);
+  };
+
+  return {
+    returnsNumber,
+    setReturnsNumber,
+    invoiceNumber,
+    setInvoiceNumber,
+    accountNumber,
+    setAccountNumber,
+    warehouse_notes,
+    setWarehouseNotes,
+    sales_notes,
+    setSalesNotes,
+    allocated,
+    action,
+    status,
+    loading,
+    selectedItemImages,
+    selectedItemAccountNumber,
+    remoteRecord,
+    conflict,
+    loadRecord,
+    handleSelect,
+    handleBack,
+    handleRecordChange,
+    handleTeamChange,
+    handleActionChange,
+    handleStatusChange,
+    handleUpdate,
+    handleResolveConflict,
+    dismissRemoteRecord: () => setRemoteRecord(null),
+    cancelConflict: () => setConflict(null),
+  };
+}
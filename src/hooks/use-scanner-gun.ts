@@ -0,0 +1,20 @@
+import { useEffect, useRef } from "react";
+import { createScanDetector } from "@/lib/scanner-gun";
+
+/** Call onScan for every code read by a keyboard-wedge scanner while the component is mounted */
+export function useScannerGun(onScan: (value: string, target: EventTarget | null) => void) {
+  const onScanRef = useRef(onScan);
+
+  useEffect(() => {
+    onScanRef.current = onScan;
+  });
+
+  useEffect(() => {
+    // Capture phase so the Enter ending a scan is stopped before inputs and forms see it
+    const handleKeyDown = createScanDetector((value, target) => onScanRef.current(value, target));
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown, true);
+    };
+  }, []);
+}
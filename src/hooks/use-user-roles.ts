@@ -0,0 +1,40 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import { getCurrentUserRoles } from "@/lib/auth";
+import type { UserRole } from "@/lib/permissions";
+
+type UserRolesState = {
+  roles: UserRole[];
+  loading: boolean;
+};
+
+/** Roles of the signed-in user, reloaded when the session changes */
+export function useUserRoles(): UserRolesState {
+  const [state, setState] = useState<UserRolesState>({ roles: [], loading: true });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = () => {
+      getCurrentUserRoles().then((roles) => {
+        if (!cancelled) setState({ roles, loading: false });
+      });
+    };
+
+    load();
+
+    // Supabase calls must not run inside the auth callback itself, so defer the reload
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange(() => {
+      setTimeout(load, 0);
+    });
+
+    return () => {
+      cancelled = true;
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  return state;
+}
@@ -2,25 +2,51 @@ import { Button } from "@/components/ui/button";
 import DefaultLayout from "@/DefaultLayout";
 import { Link } from "react-router-dom";
 import { AuthGuard } from "@/components/auth-guard";
+import { useUserRoles } from "@/hooks/use-user-roles";
+import { hasAnyRole, ROUTE_ROLES } from "@/lib/permissions";
+
+const MENU_ITEMS = [
+  { to: "./overstock", label: "Overstock", roles: ROUTE_ROLES.overstock },
+  { to: "./damages", label: "Damages", roles: ROUTE_ROLES.damages },
+  { to: "./returns", label: "Returns", roles: ROUTE_ROLES.returns },
+  { to: "./sales", label: "Sales", roles: ROUTE_ROLES.sales },
+  { to: "./final", label: "Final", roles: ROUTE_ROLES.final },
+  { to: "./admin", label: "Admin", roles: ROUTE_ROLES.admin },
+];
+
+function IndexMenu() {
+  const { roles, loading } = useUserRoles();
+
+  if (loading) {
+    return null;
+  }
+
+  const items = MENU_ITEMS.filter((item) => hasAnyRole(roles, item.roles));
+
+  if (items.length === 0) {
+    return (
+      <p className="m-2 text-gray-600">
+        Your account has no role assigned. Contact an administrator for access.
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col">
+      {items.map((item) => (
+        <Link key={item.to} to={item.to}>
+          <Button className="m-2">{item.label}</Button>
+        </Link>
+      ))}
+    </div>
+  );
+}
 
 function IndexPage() {
   return (
     <AuthGuard>
       <DefaultLayout>
-        <div className="flex flex-col">
-          <Link to="./overstock">
-            <Button className="m-2">Overstock</Button>
-          </Link>
-          <Link to="./damages">
-            <Button className="m-2">Damages</Button>
-          </Link>
-          <Link to="./sales">
-            <Button className="m-2">Sales</Button>
-          </Link>
-          <Link to="./final">
-            <Button className="m-2">Final</Button>
-          </Link>
-        </div>
+        <IndexMenu />
       </DefaultLayout>
     </AuthGuard>
   );
@@ -0,0 +1,113 @@
+/**
+ * Damage annotations drawn over a captured photo
+ * Shapes are kept as vectors in image pixels so they can be edited again, and flattened onto the image for upload
+ */
+
+import { loadImage } from "./image-processing";
+
+export type AnnotationTool = "arrow" | "circle" | "freehand" | "text";
+
+export type Point = { x: number; y: number };
+
+export type Annotation =
+  | { tool: "arrow"; from: Point; to: Point; color: string }
+  | { tool: "circle"; from: Point; to: Point; color: string } // Ellipse inside the from/to box
+  | { tool: "freehand"; points: Point[]; color: string }
+  | { tool: "text"; at: Point; text: string; color: string };
+
+export const ANNOTATION_COLORS = ["#ef4444", "#facc15", "#22c55e", "#ffffff"];
+
+// Stroke width as a fraction of the image's longest edge, so marks look the same at any resolution
+const STROKE_RATIO = 1 / 150;
+const FONT_RATIO = 1 / 18;
+
+function strokeWidth(ctx: CanvasRenderingContext2D) {
+  return Math.max(2, Math.max(ctx.canvas.width, ctx.canvas.height) * STROKE_RATIO);
+}
+
+function drawArrow(ctx: CanvasRenderingContext2D, from: Point, to: Point) {
+  const head = strokeWidth(ctx) * 5;
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  ctx.beginPath();
+  ctx.moveTo(from.x, from.y);
+  ctx.lineTo(to.x, to.y);
+  ctx.stroke();
+  ctx.beginPath();
+  ctx.moveTo(to.x, to.y);
+  ctx.lineTo(to.x - head * Math.cos(angle - Math.PI / 6), to.y - head * Math.sin(angle - Math.PI / 6));
+  ctx.lineTo(to.x - head * Math.cos(angle + Math.PI / 6), to.y - head * Math.sin(angle + Math.PI / 6));
+  ctx.closePath();
+  ctx.fill();
+}
+
+/** Draw annotations onto a canvas already holding the image */
+export function drawAnnotations(ctx: CanvasRenderingContext2D, annotations: Annotation[]) {
+  const width = strokeWidth(ctx);
+  const fontSize = Math.round(Math.max(ctx.canvas.width, ctx.canvas.height) * FONT_RATIO);
+
+  annotations.forEach((annotation) => {
+    ctx.save();
+    ctx.strokeStyle = annotation.color;
+    ctx.fillStyle = annotation.color;
+    ctx.lineWidth = width;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+
+    switch (annotation.tool) {
+      case "arrow":
+        drawArrow(ctx, annotation.from, annotation.to);
+        break;
+      case "circle": {
+        const { from, to } = annotation;
+        ctx.beginPath();
+        ctx.ellipse(
+          (from.x + to.x) / 2,
+          (from.y + to.y) / 2,
+          Math.abs(to.x - from.x) / 2,
+          Math.abs(to.y - from.y) / 2,
+          0,
+          0,
+          Math.PI * 2
+        );
+        ctx.stroke();
+        break;
+      }
+      case "freehand":
+        ctx.beginPath();
+        annotation.points.forEach((point, i) => (i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+        ctx.stroke();
+        break;
+      case "text":
+        // Dark outline keeps the label readable on any background
+        ctx.font = `bold ${fontSize}px sans-serif`;
+        ctx.textBaseline = "middle";
+        ctx.lineWidth = width * 1.5;
+        ctx.strokeStyle = "rgba(0, 0, 0, 0.8)";
+        ctx.strokeText(annotation.text, annotation.at.x, annotation.at.y);
+        ctx.fillText(annotation.text, annotation.at.x, annotation.at.y);
+        break;
+    }
+    ctx.restore();
+  });
+}
+
+/** The original image with the annotations burnt in, in the same format as the original */
+export async function flattenAnnotations(original: Blob, annotations: Annotation[]): Promise<Blob> {
+  const img = await loadImage(original);
+  const canvas = document.createElement("canvas");
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available");
+
+  ctx.drawImage(img, 0, 0);
+  drawAnnotations(ctx, annotations);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Failed to save annotated image"))),
+      original.type || "image/jpeg",
+      0.92
+    );
+  });
+}
@@ -0,0 +1,91 @@
+/**
+ * Audit trail for return records
+ * Every write to 'returns-app' records who made it, when, and which fields changed
+ *
+ * Expected table 'returns-app-audit':
+ *   id (bigint, identity), invoice_number (bigint), event (text), actor_email (text),
+ *   changes (jsonb), created_at (timestamptz, default now())
+ */
+
+import { toast } from "sonner";
+import { supabase } from "./supabaseClient";
+import { getCurrentUser } from "./auth";
+import { logger } from "./logger";
+
+const AUDIT_TABLE = "returns-app-audit";
+
+export type AuditEventType = "created" | "images_appended" | "updated" | "line_items_added";
+
+export type FieldChange = {
+  from: string | number | null;
+  to: string | number | null;
+};
+
+export type AuditChanges = Record<string, FieldChange>;
+
+export type AuditEvent = {
+  id: number;
+  invoice_number: number;
+  event: AuditEventType;
+  actor_email: string | null;
+  changes: AuditChanges;
+  created_at: string;
+};
+
+type AuditValues = Record<string, string | number | null | undefined>;
+
+/** Field-by-field differences between two sets of values (empty and null are treated the same) */
+export function diffFields(before: AuditValues, after: AuditValues): AuditChanges {
+  const changes: AuditChanges = {};
+  Object.keys(after).forEach((field) => {
+    const from = before[field] ?? null;
+    const to = after[field] ?? null;
+    if ((from ?? "") !== (to ?? "")) {
+      changes[field] = { from, to };
+    }
+  });
+  return changes;
+}
+
+/**
+ * Record an audit event. The change being audited is already saved, so a failure doesn't undo it -
+ * the user is warned instead, since the return's history is now incomplete.
+ * created_at is left to the database default so events are ordered by server time, not the device clock.
+ */
+export async function recordAuditEvent(
+  invoiceNumber: number,
+  event: AuditEventType,
+  changes: AuditChanges
+): Promise<void> {
+  if (event === "updated" && Object.keys(changes).length === 0) return;
+
+  try {
+    const user = await getCurrentUser();
+    const { error } = await supabase.from(AUDIT_TABLE).insert({
+      invoice_number: invoiceNumber,
+      event,
+      actor_email: user?.email ?? null,
+      changes,
+    });
+    if (error) throw error;
+  } catch (error) {
+    logger.error("Audit log error:", error);
+    toast.warning(`Invoice ${invoiceNumber} was saved, but the change could not be recorded in its history.`);
+  }
+}
+
+/** Fetch the history of a return, oldest first */
+export async function listAuditEvents(invoiceNumber: number): Promise<AuditEvent[]> {
+  const { data, error } = await supabase
+    .from(AUDIT_TABLE)
+    .select()
+    .eq("invoice_number", invoiceNumber)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    logger.error("Error fetching history:", error);
+    throw new Error("Failed to load history. Please try again.");
+  }
+
+  return (data ?? []) as AuditEvent[];
+}
@@ -6,6 +6,7 @@
 
 import { supabase } from "./supabaseClient";
 import { logger } from "./logger";
+import { parseRoles, type UserRole } from "./permissions";
 
 /**
  * Check if user is authenticated
@@ -33,6 +34,52 @@ export async function getCurrentUser() {
   }
 }
 
+// Roles are looked up once per signed-in user - a failed lookup is dropped so the next check asks again
+let rolesCache: { userId: string; roles: Promise<UserRole[]> } | null = null;
+
+/**
+ * Get the current user's roles
+ * Read from app_metadata (set by an admin, not editable by the user) or the 'profiles' table
+ */
+export async function getCurrentUserRoles(): Promise<UserRole[]> {
+  const user = await getCurrentUser();
+  if (!user) {
+    rolesCache = null;
+    return [];
+  }
+
+  if (rolesCache?.userId !== user.id) {
+    rolesCache = { userId: user.id, roles: loadRoles(user.id, user.app_metadata) };
+  }
+  const cached = rolesCache;
+  try {
+    return await cached.roles;
+  } catch {
+    if (rolesCache === cached) rolesCache = null;
+    return [];
+  }
+}
+
+async function loadRoles(userId: string, appMetadata: Record<string, unknown> | undefined): Promise<UserRole[]> {
+  const fromMetadata = parseRoles(appMetadata?.roles ?? appMetadata?.role);
+  if (fromMetadata.length > 0) {
+    return fromMetadata;
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from("profiles")
+      .select("role")
+      .eq("id", userId)
+      .maybeSingle();
+    if (error) throw error;
+    return parseRoles(data?.role);
+  } catch (error) {
+    logger.error("Error getting user roles:", error);
+    throw error;
+  }
+}
+
 /**
  * Sign in with email and password
  */
@@ -59,6 +106,7 @@ export async function signIn(email: string, password: string) {
  * Sign out
  */
 export async function signOut() {
+  rolesCache = null;
   try {
     const { error } = await supabase.auth.signOut();
     if (error) {
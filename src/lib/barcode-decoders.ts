@@ -0,0 +1,189 @@
+/**
+ * Barcode decoder pipeline
+ * Each decoder recognises one symbology from the scanner's raw text. Decoders are tried in order,
+ * so more specific ones (ISBN) come before the general ones that would also match (EAN-13)
+ */
+
+import { checkTypedISBN, extractISBN, isbnFileCode } from "./isbn";
+
+export type Symbology = "isbn" | "ean13" | "ean8" | "upca" | "upce" | "code128" | "qr-url";
+
+export type DecodedBarcode = {
+  symbology: Symbology;
+  value: string; // Normalised code, e.g. ISBN-13 for books, digits only for EAN/UPC
+  raw: string; // Text as read by the scanner
+  addOn?: string; // EAN 2/5 digit supplement, when present
+};
+
+type DecodedValue = Pick<DecodedBarcode, "value" | "addOn">;
+
+export type BarcodeDecoder = {
+  symbology: Symbology;
+  label: string;
+  formats: string[]; // Scanner format names this decoder reads (html5-qrcode naming)
+  decode: (text: string) => DecodedValue | null;
+};
+
+/** Formats accepted when a page doesn't configure any - books only */
+export const DEFAULT_ACCEPTED_FORMATS: Symbology[] = ["isbn"];
+
+/** Everything found on retail stock - books, stationery and gift items */
+export const RETAIL_FORMATS: Symbology[] = ["isbn", "ean13", "ean8", "upca", "upce", "code128"];
+
+// Longest Code 128 value treated as a SKU
+const MAX_SKU_LENGTH = 48;
+// Longest code kept in a file name (the part before "_" is shown as the item code)
+const MAX_FILE_CODE_LENGTH = 40;
+
+/** Mod-10 check digit shared by EAN-13, EAN-8 and UPC-A */
+function hasValidGtinCheckDigit(digits: string): boolean {
+  let sum = 0;
+  let weight = 3;
+  for (let i = digits.length - 2; i >= 0; i--) {
+    sum += parseInt(digits[i], 10) * weight;
+    weight = 4 - weight;
+  }
+  return (10 - (sum % 10)) % 10 === parseInt(digits[digits.length - 1], 10);
+}
+
+/** Expand a zero-suppressed UPC-E code to its UPC-A form */
+function expandUpcE(upce: string): string {
+  const ns = upce[0];
+  const d = upce.slice(1, 7);
+  const check = upce[7];
+  const last = d[5];
+  let body: string;
+  if (last === "0" || last === "1" || last === "2") {
+    body = `${d[0]}${d[1]}${last}0000${d[2]}${d[3]}${d[4]}`;
+  } else if (last === "3") {
+    body = `${d[0]}${d[1]}${d[2]}00000${d[3]}${d[4]}`;
+  } else if (last === "4") {
+    body = `${d[0]}${d[1]}${d[2]}${d[3]}00000${d[4]}`;
+  } else {
+    body = `${d[0]}${d[1]}${d[2]}${d[3]}${d[4]}0000${last}`;
+  }
+  return `${ns}${body}${check}`;
+}
+
+function digitsWithCheck(length: number) {
+  return (text: string) => {
+    const digits = text.replace(/[\s-]/g, "");
+    return new RegExp(`^\\d{${length}}$`).test(digits) && hasValidGtinCheckDigit(digits) ? { value: digits } : null;
+  };
+}
+
+export const BARCODE_DECODERS: BarcodeDecoder[] = [
+  {
+    symbology: "isbn",
+    label: "ISBN",
+    formats: ["EAN_13", "QR_CODE", "CODE_128"],
+    decode: (text) => {
+      const isbn = extractISBN(text);
+      return isbn ? { value: isbn.isbn13, addOn: isbn.addOn ?? undefined } : null;
+    },
+  },
+  {
+    symbology: "ean13",
+    label: "EAN-13",
+    formats: ["EAN_13"],
+    decode: digitsWithCheck(13),
+  },
+  {
+    symbology: "ean8",
+    label: "EAN-8",
+    formats: ["EAN_8"],
+    decode: digitsWithCheck(8),
+  },
+  {
+    symbology: "upca",
+    label: "UPC-A",
+    formats: ["UPC_A"],
+    decode: digitsWithCheck(12),
+  },
+  {
+    symbology: "upce",
+    label: "UPC-E",
+    formats: ["UPC_E"],
+    decode: (text) => {
+      const digits = text.replace(/[\s-]/g, "");
+      return /^[01]\d{7}$/.test(digits) && hasValidGtinCheckDigit(expandUpcE(digits)) ? { value: digits } : null;
+    },
+  },
+  {
+    symbology: "code128",
+    label: "SKU",
+    formats: ["CODE_128"],
+    decode: (text) => {
+      const sku = text.trim();
+      return sku.length > 0 && sku.length <= MAX_SKU_LENGTH && /^[\x20-\x7E]+$/.test(sku) ? { value: sku } : null;
+    },
+  },
+  {
+    symbology: "qr-url",
+    label: "URL",
+    formats: ["QR_CODE"],
+    decode: (text) => {
+      try {
+        const url = new URL(text.trim());
+        return url.protocol === "http:" || url.protocol === "https:" ? { value: url.toString() } : null;
+      } catch {
+        return null;
+      }
+    },
+  },
+];
+
+export function getDecoder(symbology: Symbology): BarcodeDecoder | undefined {
+  return BARCODE_DECODERS.find((decoder) => decoder.symbology === symbology);
+}
+
+/** Scanner format names needed to read the accepted symbologies */
+export function scannerFormats(accepted: Symbology[]): string[] {
+  const formats = new Set<string>();
+  BARCODE_DECODERS.filter((decoder) => accepted.includes(decoder.symbology)).forEach((decoder) =>
+    decoder.formats.forEach((format) => formats.add(format))
+  );
+  return [...formats];
+}
+
+/**
+ * Run the accepted decoders over scanned text
+ * formatName is the format reported by the scanner, when known, and limits which decoders are tried
+ */
+export function decodeBarcode(
+  text: string,
+  accepted: Symbology[] = DEFAULT_ACCEPTED_FORMATS,
+  formatName?: string
+): DecodedBarcode | null {
+  if (!text) return null;
+  for (const decoder of BARCODE_DECODERS) {
+    if (!accepted.includes(decoder.symbology)) continue;
+    if (formatName && !decoder.formats.includes(formatName)) continue;
+    const decoded = decoder.decode(text);
+    if (decoded) {
+      return { symbology: decoder.symbology, ...decoded, raw: text };
+    }
+  }
+  return null;
+}
+
+/** Resolve typed text to a barcode - ISBN-10/13 by checksum, then any other accepted symbology */
+export function decodeTypedCode(
+  text: string,
+  accepted: Symbology[]
+): { barcode: DecodedBarcode | null; error: string | null } {
+  const raw = text.trim();
+  const isbn = accepted.includes("isbn") ? checkTypedISBN(raw) : { isbn13: null, error: null };
+  if (isbn.isbn13) {
+    return { barcode: { symbology: "isbn", value: isbn.isbn13, raw }, error: null };
+  }
+  const other = decodeBarcode(raw, accepted.filter((format) => format !== "isbn"));
+  return { barcode: other, error: other ? null : isbn.error };
+}
+
+/** Code safe to use as the file name prefix (no "_", slashes or other separators) */
+export function fileNameCode(barcode: DecodedBarcode): string {
+  if (barcode.symbology === "isbn") return isbnFileCode(barcode.value, barcode.addOn);
+  const source = barcode.symbology === "qr-url" ? barcode.value.replace(/^https?:\/\//, "") : barcode.value;
+  return source.replace(/[^A-Za-z0-9-]+/g, "-").replace(/^-+|-+$/g, "").slice(0, MAX_FILE_CODE_LENGTH);
+}
@@ -0,0 +1,65 @@
+/**
+ * Barcodes printed on returns paperwork
+ * A Code 128 holds a single number; a QR may hold several labelled values (e.g. "INV:21000000;R:56012322")
+ */
+
+import type { Symbology } from "./barcode-decoders";
+import {
+  validateAccountNumber,
+  validateInvoiceNumber,
+  validateRNumber,
+  type ValidationResultWithValue,
+} from "./validation";
+
+export type DocumentField = "creditNumber" | "rNumber" | "accNumber";
+
+/** Symbologies to scan for paperwork - Code 128 and QR */
+export const DOCUMENT_FORMATS: Symbology[] = ["code128", "qr-url"];
+
+export const DOCUMENT_FIELD_LABELS: Record<DocumentField, string> = {
+  creditNumber: "invoice number",
+  rNumber: "R number",
+  accNumber: "account number",
+};
+
+// Labels accepted in front of a value, lower case without separators
+const FIELD_KEYS: Record<DocumentField, string[]> = {
+  creditNumber: ["inv", "invoice", "invoiceno", "invoicenumber", "credit", "creditno", "creditnumber"],
+  rNumber: ["r", "rno", "rnumber", "return", "returnno", "returnsnumber"],
+  accNumber: ["acc", "account", "accno", "accnumber", "accountnumber"],
+};
+
+const VALIDATORS: Record<DocumentField, (value: string) => ValidationResultWithValue<string>> = {
+  creditNumber: (value) => validateInvoiceNumber(value, true),
+  rNumber: (value) => validateRNumber(value, true),
+  accNumber: (value) => validateAccountNumber(value, true),
+};
+
+/** Labelled value for the field in "key:value" / "key=value" pairs or URL query parameters, if present */
+function labelledValue(text: string, field: DocumentField): string | null {
+  let pairs: Array<[string, string]> = [];
+  try {
+    pairs = [...new URL(text).searchParams.entries()];
+  } catch {
+    pairs = text
+      .split(/[;\n&|,]/)
+      .map((part) => part.split(/[:=]/))
+      .filter((parts) => parts.length === 2)
+      .map(([key, value]) => [key, value]);
+  }
+  const match = pairs.find(([key]) => FIELD_KEYS[field].includes(key.toLowerCase().replace(/[^a-z]/g, "")));
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Read one form field from scanned paperwork, checked with the same strict format as typed input
+ * A lone value is used as is; labelled content only counts when it has a label for this field
+ */
+export function readDocumentField(text: string, field: DocumentField): ValidationResultWithValue<string> {
+  const raw = text.trim();
+  const labelled = /[:=]/.test(raw) ? labelledValue(raw, field) : raw;
+  if (labelled === null) {
+    return { valid: false, error: `No ${DOCUMENT_FIELD_LABELS[field]} in this barcode` };
+  }
+  return VALIDATORS[field](labelled);
+}
@@ -0,0 +1,249 @@
+/**
+ * Image processing for captured and imported photos
+ * Decodes (fixing EXIF orientation), crops or resizes, then encodes to the best supported format
+ * within a byte budget, so every image is uploaded in the same shape whichever path it came from
+ */
+
+export type ImageOutputFormat = "image/avif" | "image/webp" | "image/jpeg";
+
+export type ImageProcessingOptions = {
+  maxSize: number; // Longest edge in pixels (the side length when cropping to a square)
+  crop: "square" | "none"; // "square" centre-crops, "none" keeps the original aspect ratio
+  formats: ImageOutputFormat[]; // In order of preference - the first one the browser can encode is used
+  quality: number; // Starting encoder quality, 0-1
+  minQuality: number; // Lowest quality tried before the image is scaled down instead
+  maxBytes: number; // Byte budget for the encoded image
+};
+
+export type ProcessedImage = {
+  blob: Blob;
+  width: number;
+  height: number;
+  type: string;
+};
+
+/** Photos taken in the capture screens - 720px square, as the gallery and viewers expect */
+export const CAPTURE_IMAGE_OPTIONS: ImageProcessingOptions = {
+  maxSize: 720,
+  crop: "square",
+  formats: ["image/webp", "image/jpeg"],
+  quality: 0.95,
+  minQuality: 0.6,
+  maxBytes: 1024 * 1024,
+};
+
+// Each step down when the lowest quality is still over budget
+const DOWNSCALE_FACTOR = 0.85;
+const QUALITY_STEP = 0.1;
+const MAX_ENCODE_ATTEMPTS = 12;
+
+const EXTENSIONS: Record<string, string> = {
+  "image/avif": "avif",
+  "image/webp": "webp",
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+};
+
+/** File extension for an image MIME type (jpg when unknown) */
+export function imageExtension(type: string): string {
+  return EXTENSIONS[type] ?? "jpg";
+}
+
+const encoderSupport = new Map<string, Promise<boolean>>();
+
+/** Browsers fall back to PNG for formats they can't encode, so check with a 1px canvas once per format */
+function canEncode(type: ImageOutputFormat): Promise<boolean> {
+  if (type === "image/jpeg") return Promise.resolve(true);
+  let supported = encoderSupport.get(type);
+  if (!supported) {
+    const canvas = document.createElement("canvas");
+    canvas.width = 1;
+    canvas.height = 1;
+    supported = new Promise((resolve) => canvas.toBlob((blob) => resolve(blob?.type === type), type));
+    encoderSupport.set(type, supported);
+  }
+  return supported;
+}
+
+async function pickFormat(formats: ImageOutputFormat[]): Promise<ImageOutputFormat> {
+  for (const format of formats) {
+    if (await canEncode(format)) return format;
+  }
+  return "image/jpeg";
+}
+
+/**
+ * EXIF orientation (1-8) of a JPEG, or 1 when there is none
+ * Only needed for browsers that don't apply it themselves when decoding
+ */
+async function readExifOrientation(blob: Blob): Promise<number> {
+  const view = new DataView(await blob.slice(0, 64 * 1024).arrayBuffer());
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    // APP1 segment starting "Exif\0\0"
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      if (tiff + 8 > view.byteLength) return 1;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      if (ifd + 2 > view.byteLength) return 1;
+      const entries = view.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 10 > view.byteLength) return 1;
+        if (view.getUint16(entry, little) === 0x0112) {
+          return view.getUint16(entry + 8, little);
+        }
+      }
+      return 1;
+    }
+    if ((marker & 0xff00) !== 0xff00) return 1;
+    offset += 2 + length;
+  }
+  return 1;
+}
+
+function browserAppliesOrientation(): boolean {
+  return typeof CSS !== "undefined" && CSS.supports?.("image-orientation", "from-image");
+}
+
+/** Decode a blob into an <img> element */
+export function loadImage(blob: Blob): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Failed to load image"));
+    };
+    img.src = url;
+  });
+}
+
+type DecodedImage = { source: CanvasImageSource; width: number; height: number; orientation: number };
+
+/** Decode to something drawable, with the orientation still to apply by hand (1 when already upright) */
+async function decode(source: Blob | HTMLVideoElement): Promise<DecodedImage> {
+  if (source instanceof HTMLVideoElement) {
+    return { source, width: source.videoWidth, height: source.videoHeight, orientation: 1 };
+  }
+  if (typeof createImageBitmap === "function") {
+    try {
+      const bitmap = await createImageBitmap(source, { imageOrientation: "from-image" });
+      return { source: bitmap, width: bitmap.width, height: bitmap.height, orientation: 1 };
+    } catch {
+      /* fall back to an <img> element */
+    }
+  }
+  const img = await loadImage(source);
+  const orientation = browserAppliesOrientation() ? 1 : await readExifOrientation(source);
+  return { source: img, width: img.naturalWidth, height: img.naturalHeight, orientation };
+}
+
+/** Draw the (cropped) image upright and scaled to the given output size */
+function render(image: DecodedImage, crop: ImageProcessingOptions["crop"], outWidth: number, outHeight: number) {
+  const canvas = document.createElement("canvas");
+  canvas.width = outWidth;
+  canvas.height = outHeight;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available");
+
+  // Orientations 5-8 are rotated a quarter turn, so width and height swap
+  const swapped = image.orientation >= 5;
+  const uprightWidth = swapped ? image.height : image.width;
+  const uprightHeight = swapped ? image.width : image.height;
+
+  // Centre square of the upright image, or all of it
+  const cropSize = Math.min(uprightWidth, uprightHeight);
+  const sx = crop === "square" ? (uprightWidth - cropSize) / 2 : 0;
+  const sy = crop === "square" ? (uprightHeight - cropSize) / 2 : 0;
+  const sw = crop === "square" ? cropSize : uprightWidth;
+  const sh = crop === "square" ? cropSize : uprightHeight;
+
+  ctx.scale(outWidth / sw, outHeight / sh);
+  ctx.translate(-sx, -sy);
+  switch (image.orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, image.width, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, image.width, image.height); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, image.height); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, image.height, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, image.height, image.width); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, image.width); break;
+  }
+  ctx.drawImage(image.source, 0, 0);
+  return canvas;
+}
+
+function encode(canvas: HTMLCanvasElement, type: ImageOutputFormat, quality: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode image"))),
+      type,
+      quality
+    );
+  });
+}
+
+/** Output dimensions for the options - never upscaled */
+function outputSize(image: DecodedImage, options: ImageProcessingOptions, scale: number) {
+  const swapped = image.orientation >= 5;
+  const width = swapped ? image.height : image.width;
+  const height = swapped ? image.width : image.height;
+  if (options.crop === "square") {
+    const side = Math.round(Math.min(options.maxSize, width, height) * scale);
+    return { width: side, height: side };
+  }
+  const fit = Math.min(1, options.maxSize / Math.max(width, height)) * scale;
+  return { width: Math.max(1, Math.round(width * fit)), height: Math.max(1, Math.round(height * fit)) };
+}
+
+/**
+ * Decode, orient, crop/resize and encode an image (or the current frame of a video)
+ * Quality is lowered in steps to meet the byte budget, then the image is scaled down if that isn't enough
+ */
+export async function processImage(
+  source: Blob | HTMLVideoElement,
+  overrides: Partial<ImageProcessingOptions> = {}
+): Promise<ProcessedImage> {
+  const options = { ...CAPTURE_IMAGE_OPTIONS, ...overrides };
+  const image = await decode(source);
+  if (!image.width || !image.height) throw new Error("Image has no content");
+
+  const type = await pickFormat(options.formats);
+  let scale = 1;
+  let quality = options.quality;
+  let result: ProcessedImage | null = null;
+
+  try {
+    for (let attempt = 0; attempt < MAX_ENCODE_ATTEMPTS; attempt++) {
+      const { width, height } = outputSize(image, options, scale);
+      const blob = await encode(render(image, options.crop, width, height), type, quality);
+      result = { blob, width, height, type: blob.type || type };
+      if (blob.size <= options.maxBytes) break;
+
+      if (quality - QUALITY_STEP >= options.minQuality) {
+        quality -= QUALITY_STEP;
+      } else {
+        scale *= DOWNSCALE_FACTOR;
+        quality = options.quality;
+      }
+    }
+  } finally {
+    if (typeof ImageBitmap !== "undefined" && image.source instanceof ImageBitmap) {
+      image.source.close();
+    }
+  }
+
+  if (!result) throw new Error("Failed to encode image");
+  return result;
+}
@@ -0,0 +1,119 @@
+/**
+ * ISBN helpers shared by the scanner, uploads and image viewers
+ * Every capture is stored under its canonical ISBN-13 so the same book never appears under two identifiers
+ */
+
+export type ParsedISBN = {
+  isbn13: string; // Canonical ISBN-13
+  original: string; // As scanned, e.g. an ISBN-10 or EAN-13 with add-on
+  addOn: string | null; // 2 or 5 digit EAN supplement (issue number or price), if present
+};
+
+const ADD_ON_PATTERN = /^(\d{2}|\d{5})$/;
+
+export function isValidISBN10(isbn10: string): boolean {
+  if (!/^\d{9}[\dX]$/.test(isbn10)) return false;
+  let sum = 0;
+  for (let i = 0; i < 10; i++) {
+    const c = isbn10[i];
+    const val = c === "X" ? 10 : parseInt(c, 10);
+    sum += (10 - i) * val;
+  }
+  return sum % 11 === 0;
+}
+
+export function isValidISBN13(isbn13: string): boolean {
+  if (!/^97[89]\d{10}$/.test(isbn13)) return false;
+  let sum = 0;
+  for (let i = 0; i < 13; i++) {
+    sum += parseInt(isbn13[i], 10) * (i % 2 === 0 ? 1 : 3);
+  }
+  return sum % 10 === 0;
+}
+
+/** Convert a valid ISBN-10 to ISBN-13 (978 prefix, recalculated check digit) */
+export function isbn10To13(isbn10: string): string {
+  const body = `978${isbn10.slice(0, 9)}`;
+  let sum = 0;
+  for (let i = 0; i < 12; i++) {
+    sum += parseInt(body[i], 10) * (i % 2 === 0 ? 1 : 3);
+  }
+  return `${body}${(10 - (sum % 10)) % 10}`;
+}
+
+/** Canonical ISBN-13 for an ISBN-10 or ISBN-13 (hyphens and spaces ignored), or null if invalid */
+export function toISBN13(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const compact = value.replace(/[\s-]/g, "").toUpperCase();
+  if (isValidISBN13(compact)) return compact;
+  if (isValidISBN10(compact)) return isbn10To13(compact);
+  return null;
+}
+
+/**
+ * Live feedback while an ISBN is typed by hand
+ * error stays null while the number is still being entered; isbn13 is set once it is complete and valid
+ */
+export function checkTypedISBN(value: string): { isbn13: string | null; error: string | null } {
+  const compact = value.replace(/[\s-]/g, "").toUpperCase();
+  if (!compact) return { isbn13: null, error: null };
+  if (!/^\d*X?$/.test(compact) || (compact.endsWith("X") && compact.length !== 10)) {
+    return { isbn13: null, error: "Only digits are allowed (X only as the last character of an ISBN-10)" };
+  }
+  if (compact.length > 13) return { isbn13: null, error: "Too many digits - an ISBN has 10 or 13" };
+  if (compact.length === 13) {
+    if (!/^97[89]/.test(compact)) return { isbn13: null, error: "An ISBN-13 starts with 978 or 979" };
+    return isValidISBN13(compact)
+      ? { isbn13: compact, error: null }
+      : { isbn13: null, error: "Check digit doesn't match - re-check the number" };
+  }
+  if (compact.length === 10 && isValidISBN10(compact)) {
+    return { isbn13: isbn10To13(compact), error: null };
+  }
+  // 10 digits that fail the checksum may be the start of an ISBN-13
+  if (compact.length === 10 && !compact.startsWith("97")) {
+    return { isbn13: null, error: "Check digit doesn't match - re-check the number" };
+  }
+  return { isbn13: null, error: null };
+}
+
+/** Find an ISBN in scanned text, normalised to ISBN-13 with any EAN add-on split off */
+export function extractISBN(text: string): ParsedISBN | null {
+  if (!text) return null;
+  // Find candidate substrings with digits / X / hyphens / spaces
+  const candidates = text.match(/[\dXx][\dXx\- ]{8,22}[\dXx]/g) ?? [];
+  for (const cand of candidates) {
+    const original = cand.trim();
+    const compact = original.replace(/[\s-]/g, "").toUpperCase();
+
+    // EAN-13, optionally followed by a 2 or 5 digit supplement
+    const ean = compact.match(/^(97[89]\d{10})(\d{2}|\d{5})?$/);
+    if (ean && isValidISBN13(ean[1])) {
+      return { isbn13: ean[1], original, addOn: ean[2] ?? null };
+    }
+
+    if (compact.length === 10 && isValidISBN10(compact)) {
+      return { isbn13: isbn10To13(compact), original, addOn: null };
+    }
+  }
+  return null;
+}
+
+/** File name prefix for a book image - the ISBN-13, plus the add-on when there is one */
+export function isbnFileCode(isbn13: string, addOn?: string | null): string {
+  return addOn ? `${isbn13}-${addOn}` : isbn13;
+}
+
+/**
+ * Read the ISBN back out of a stored file name (<code>_<timestamp>.<ext>)
+ * Older files named by ISBN-10 are reported as ISBN-13; other codes are returned unchanged
+ */
+export function isbnFromFileName(fileName: string): { code: string; addOn: string | null } {
+  const prefix = fileName.split("_")[0];
+  const [main, addOn, ...rest] = prefix.split("-");
+  const isbn13 = toISBN13(main);
+  if (isbn13 && rest.length === 0 && (addOn === undefined || ADD_ON_PATTERN.test(addOn))) {
+    return { code: isbn13, addOn: addOn ?? null };
+  }
+  return { code: prefix, addOn: null };
+}
@@ -0,0 +1,245 @@
+/**
+ * Line items on a return - one row per scanned code with its quantity, condition and photos
+ *
+ * Expected table 'returns-app-items':
+ *   id (bigint, identity), InvoiceNumber (bigint, references 'returns-app'), isbn (text), symbology (text),
+ *   add_on (text), quantity (int), condition (text), damage_type (text), images (text[]),
+ *   created_at (timestamptz, default now())
+ *   with a unique index on ("InvoiceNumber", isbn, coalesce(add_on, ''))
+ *
+ * Expected table 'returns-app-item-submissions':
+ *   invoice_number (bigint), submission_id (text), created_at (timestamptz, default now()),
+ *   primary key (invoice_number, submission_id)
+ *
+ * Expected function 'add_return_line_items'(p_invoice bigint, p_submission text, p_items jsonb) returns jsonb,
+ * doing in one transaction:
+ *   - insert (p_invoice, p_submission) into 'returns-app-item-submissions'; on conflict return null and write nothing
+ *   - upsert each item on the unique index, with quantity = quantity + excluded.quantity, new photos appended
+ *     to images and condition / damage_type kept unless the item has one
+ *   - return {lines_before, lines_after, quantity_before, quantity_after} for the invoice
+ */
+
+import { supabase } from "./supabaseClient";
+import { logger } from "./logger";
+import { recordAuditEvent } from "./audit-log";
+import type { DecodedBarcode, Symbology } from "./barcode-decoders";
+
+const TABLE = "returns-app-items";
+// Rows per request when collecting every photo URL (PostgREST caps responses at 1000 rows)
+const IMAGE_URL_PAGE_SIZE = 1000;
+// Attempts at rewriting a line's photos before giving up on concurrent writes
+const REWRITE_ATTEMPTS = 5;
+const ADD_LINE_ITEMS_FUNCTION = "add_return_line_items";
+
+export type ConditionGrade = "new" | "good" | "fair" | "poor" | "unsaleable";
+
+export const CONDITION_GRADES: Array<{ id: ConditionGrade; label: string }> = [
+  { id: "new", label: "New" },
+  { id: "good", label: "Good" },
+  { id: "fair", label: "Fair" },
+  { id: "poor", label: "Poor" },
+  { id: "unsaleable", label: "Unsaleable" },
+];
+
+export type DamageType = "cover" | "spine" | "corners" | "pages" | "water" | "sticker" | "other";
+
+export const DAMAGE_TYPES: Array<{ id: DamageType; label: string }> = [
+  { id: "cover", label: "Cover" },
+  { id: "spine", label: "Spine" },
+  { id: "corners", label: "Corners" },
+  { id: "pages", label: "Pages" },
+  { id: "water", label: "Water" },
+  { id: "sticker", label: "Sticker residue" },
+  { id: "other", label: "Other" },
+];
+
+export type ReturnLineItem = {
+  id: number;
+  InvoiceNumber: number;
+  isbn: string; // Scanned code - an ISBN-13 unless symbology says otherwise
+  symbology: Symbology | null;
+  add_on: string | null;
+  quantity: number;
+  condition: ConditionGrade | null;
+  damage_type: DamageType | null;
+  images: string[]; // Photo URLs, a subset of the return's images
+  created_at: string;
+};
+
+export type NewReturnLineItem = Omit<ReturnLineItem, "id" | "InvoiceNumber" | "created_at">;
+
+/** A line as captured in ImagePanel, before its photos are uploaded */
+export type DraftLineItem = {
+  code: string; // Normalised code, same as GalleryItem.isbn
+  symbology: Symbology;
+  addOn?: string;
+  originalCode?: string;
+  quantity: number;
+  condition?: ConditionGrade;
+  damageType?: DamageType;
+  photoIds: string[]; // Gallery item ids of the photos taken for this line
+  createdByPhotoId?: string; // Photo whose capture added the line, rather than a rapid scan
+};
+
+/** Identifies a line - the same title with a different add-on (e.g. magazine issue) is a separate line */
+export function lineItemKey(code: string, addOn?: string | null): string {
+  return addOn ? `${code}-${addOn}` : code;
+}
+
+/** The barcode a line was scanned from, e.g. to take another photo of it */
+export function scanLineBarcode(line: DraftLineItem): DecodedBarcode {
+  return {
+    symbology: line.symbology,
+    value: line.code,
+    raw: line.originalCode ?? line.code,
+    addOn: line.addOn,
+  };
+}
+
+export function conditionLabel(condition: ConditionGrade | null | undefined): string {
+  return CONDITION_GRADES.find((grade) => grade.id === condition)?.label ?? "";
+}
+
+export function damageTypeLabel(damageType: DamageType | null | undefined): string {
+  return DAMAGE_TYPES.find((type) => type.id === damageType)?.label ?? "";
+}
+
+/** Swap each line's photo ids for the URLs they were uploaded to (photos that failed to upload are dropped) */
+export function resolveLineItems(
+  lines: DraftLineItem[],
+  uploadResults: Array<{ itemId?: string; publicUrl?: string; error?: unknown }>
+): NewReturnLineItem[] {
+  const urls = new Map<string, string>();
+  uploadResults.forEach((result) => {
+    if (result.itemId && result.publicUrl && !result.error) {
+      urls.set(result.itemId, result.publicUrl);
+    }
+  });
+
+  return lines.map((line) => ({
+    isbn: line.code,
+    symbology: line.symbology,
+    add_on: line.addOn ?? null,
+    quantity: line.quantity,
+    condition: line.condition ?? null,
+    damage_type: line.damageType ?? null,
+    images: line.photoIds.map((id) => urls.get(id)).filter((url): url is string => !!url),
+  }));
+}
+
+// Raw row as returned by Supabase
+type LineItemRow = Omit<ReturnLineItem, "images"> & { images: string[] | null };
+
+function toLineItem(row: LineItemRow): ReturnLineItem {
+  return { ...row, images: row.images ?? [] };
+}
+
+/** Line items of a return, in the order they were logged */
+async function listForInvoice(invoiceNumber: number): Promise<ReturnLineItem[]> {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select()
+    .eq("InvoiceNumber", invoiceNumber)
+    .order("id", { ascending: true });
+
+  if (error) {
+    logger.error("Error fetching line items:", error);
+    throw new Error("Failed to load line items. Please try again.");
+  }
+  return ((data ?? []) as LineItemRow[]).map(toLineItem);
+}
+
+/** Every photo URL attached to a line item, for storage maintenance */
+async function listImageUrls(): Promise<string[]> {
+  const urls: string[] = [];
+  for (let from = 0; ; from += IMAGE_URL_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(TABLE)
+      .select("images")
+      .order("id", { ascending: true })
+      .range(from, from + IMAGE_URL_PAGE_SIZE - 1);
+    if (error) {
+      logger.error("Error fetching line items:", error);
+      throw new Error("Failed to load line items. Please try again.");
+    }
+    const rows = (data ?? []) as Array<Pick<LineItemRow, "images">>;
+    rows.forEach((row) => urls.push(...(row.images ?? [])));
+    if (rows.length < IMAGE_URL_PAGE_SIZE) return urls;
+  }
+}
+
+/**
+ * Swap photo entries on every line of a return, e.g. after the photos were moved in storage
+ * Each write only applies while the line still holds exactly the photos that were read, so photos added
+ * meanwhile are kept - the lines are re-read and the rest tried again
+ */
+async function rewriteImages(invoiceNumber: number, rewrite: (ref: string) => string): Promise<void> {
+  for (let attempt = 0; attempt < REWRITE_ATTEMPTS; attempt++) {
+    let pending = false;
+    for (const line of await listForInvoice(invoiceNumber)) {
+      const images = line.images.map(rewrite);
+      if (images.every((ref, i) => ref === line.images[i])) continue;
+
+      // contains + containedBy: the column still holds the same set of photos
+      const { data, error } = await supabase
+        .from(TABLE)
+        .update({ images })
+        .eq("id", line.id)
+        .contains("images", line.images)
+        .containedBy("images", line.images)
+        .select("id");
+      if (error) {
+        logger.error("Line item update error:", error);
+        throw new Error("Failed to save line items. Please try again.");
+      }
+      if ((data ?? []).length === 0) pending = true;
+    }
+    if (!pending) return;
+  }
+  throw new Error("Line items kept changing while their photos were updated. Please try again.");
+}
+
+type AddLineItemsSummary = {
+  lines_before: number;
+  lines_after: number;
+  quantity_before: number;
+  quantity_after: number;
+};
+
+/**
+ * Add line items to a return. A code already on the return has its quantity and photos added to the
+ * existing line, and takes the new condition / damage type when one was recorded.
+ * The merge runs in the database so two benches saving the same invoice can't overwrite each other's counts,
+ * and a retry with the same submissionId (e.g. after the response was lost) is ignored rather than added twice.
+ */
+async function addToReturn(invoiceNumber: number, items: NewReturnLineItem[], submissionId: string): Promise<void> {
+  if (items.length === 0) return;
+
+  const { data, error } = await supabase.rpc(ADD_LINE_ITEMS_FUNCTION, {
+    p_invoice: invoiceNumber,
+    p_submission: submissionId,
+    p_items: items,
+  });
+  if (error) {
+    logger.error("Line item save error:", error);
+    throw new Error("Failed to save line items. Please try again.");
+  }
+
+  // null when this submission's lines were already saved
+  const summary = data as AddLineItemsSummary | null;
+  if (!summary) {
+    logger.log("Line items already saved for submission", submissionId);
+    return;
+  }
+  await recordAuditEvent(invoiceNumber, "line_items_added", {
+    lines: { from: summary.lines_before, to: summary.lines_after },
+    quantity: { from: summary.quantity_before, to: summary.quantity_after },
+  });
+}
+
+export const lineItemsRepository = {
+  listForInvoice,
+  listImageUrls,
+  rewriteImages,
+  addToReturn,
+};
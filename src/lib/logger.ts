@@ -71,6 +71,15 @@ function extractMessage(args: unknown[]): string | null {
         'Supabase update error:',
         'Error downloading',
         'Error creating',
+        'Audit log error:',
+        'Reference data error:',
+        'Error loading reference data:',
+        'Error saving reference data:',
+        'Error adding reference value:',
+        'Error updating reference value:',
+        'Line item insert error:',
+        'Line item update error:',
+        'Line item save error:',
       ];
       
       if (debugPatterns.some(pattern => arg.includes(pattern))) {
@@ -0,0 +1,167 @@
+/**
+ * IndexedDB persistence for offline capture
+ * Holds in-progress drafts (captured images and form fields) so they survive a reload,
+ * and the queue of submissions waiting for connectivity to come back
+ */
+
+import type { UploadResult } from "@/components/ui/upload";
+import type { Symbology } from "./barcode-decoders";
+import type { DraftLineItem } from "./line-items";
+import type { Annotation } from "./annotations";
+
+const DB_NAME = "returns-app-offline";
+const DB_VERSION = 1;
+const DRAFTS_STORE = "drafts";
+const SUBMISSIONS_STORE = "submissions";
+
+export type SubmissionKind = "overstock" | "damages" | "returns";
+
+export type DraftImage = {
+  id: string;
+  isbn: string;
+  symbology?: Symbology;
+  addOn?: string;
+  originalCode?: string;
+  fileName: string;
+  blob: Blob;
+  originalBlob?: Blob; // Unannotated photo when blob has annotations flattened in
+  annotations?: Annotation[];
+  assetUrl?: string; // Set for the "Not Auth" placeholder, blob is resolved on upload
+  uploaded?: boolean; // Already in storage - restored drafts reuse uploadResult instead of uploading again
+  uploadResult?: UploadResult;
+};
+
+export type DraftFormFields = {
+  creditNumber: string;
+  rNumber: string;
+  accNumber: string;
+  reason: string;
+};
+
+export type QueuedSubmission = {
+  id: string;
+  kind: SubmissionKind;
+  invoiceNumber: string;
+  accountNumber: string;
+  returnsNumber: string;
+  reason: string;
+  items: DraftImage[]; // Images still to be uploaded
+  uploadResults: UploadResult[]; // Images already uploaded before the connection dropped
+  lineItems?: DraftLineItem[]; // Missing on submissions queued before line items were captured
+  submissionId?: string; // Set when an online attempt was made first, so its saved line items aren't added again
+  createdAt: string;
+  attempts: number;
+  lastError?: string;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available in this browser"));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(DRAFTS_STORE)) {
+        db.createObjectStore(DRAFTS_STORE);
+      }
+      if (!db.objectStoreNames.contains(SUBMISSIONS_STORE)) {
+        db.createObjectStore(SUBMISSIONS_STORE, { keyPath: "id" });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null; // Allow a later retry
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+/** Run a single request against an object store and resolve with its result */
+async function runRequest<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = createRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Drafts - keyed by page (e.g. "overstock-gallery", "damages-form")
+ */
+export async function loadDraft<T>(key: string): Promise<T | null> {
+  const value = await runRequest<T | undefined>(DRAFTS_STORE, "readonly", (store) => store.get(key));
+  return value ?? null;
+}
+
+export async function saveDraft<T>(key: string, value: T): Promise<void> {
+  await runRequest(DRAFTS_STORE, "readwrite", (store) => store.put(value, key));
+}
+
+export async function clearDraft(key: string): Promise<void> {
+  await runRequest(DRAFTS_STORE, "readwrite", (store) => store.delete(key));
+}
+
+/**
+ * Submission queue
+ */
+export async function enqueueSubmission(
+  submission: Omit<QueuedSubmission, "id" | "createdAt" | "attempts">
+): Promise<QueuedSubmission> {
+  const queued: QueuedSubmission = {
+    ...submission,
+    id: `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+  };
+  await runRequest(SUBMISSIONS_STORE, "readwrite", (store) => store.put(queued));
+  notifyQueueChanged();
+  return queued;
+}
+
+export async function listQueuedSubmissions(): Promise<QueuedSubmission[]> {
+  const all = await runRequest<QueuedSubmission[]>(SUBMISSIONS_STORE, "readonly", (store) => store.getAll());
+  // Replay oldest first so appended images keep their capture order
+  return [...all].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function updateQueuedSubmission(submission: QueuedSubmission): Promise<void> {
+  await runRequest(SUBMISSIONS_STORE, "readwrite", (store) => store.put(submission));
+  notifyQueueChanged();
+}
+
+export async function removeQueuedSubmission(id: string): Promise<void> {
+  await runRequest(SUBMISSIONS_STORE, "readwrite", (store) => store.delete(id));
+  notifyQueueChanged();
+}
+
+// Listeners notified whenever the submission queue is modified
+const queueListeners = new Set<() => void>();
+
+export function onQueueChanged(listener: () => void): () => void {
+  queueListeners.add(listener);
+  return () => {
+    queueListeners.delete(listener);
+  };
+}
+
+function notifyQueueChanged() {
+  queueListeners.forEach((listener) => listener());
+}
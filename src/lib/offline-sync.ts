@@ -0,0 +1,247 @@
+/**
+ * Background sync for queued Overstock/Damages submissions
+ * Replays uploads and inserts when connectivity returns and publishes queue status for the UI
+ */
+
+import {
+  listQueuedSubmissions,
+  onQueueChanged,
+  removeQueuedSubmission,
+  updateQueuedSubmission,
+  type DraftImage,
+  type QueuedSubmission,
+} from "./offline-queue";
+import {
+  uploadGalleryItems,
+  insertOverstockData,
+  insertDamagesData,
+  insertReturnData,
+} from "@/components/ui/upload";
+import { logger, sanitizeErrorMessage } from "./logger";
+import { getCurrentUser, isAuthenticated } from "./auth";
+import { supabase } from "./supabaseClient";
+import { toast } from "sonner";
+
+// After this many failed attempts a submission is only retried when requested manually
+const MAX_AUTO_ATTEMPTS = 5;
+const SYNC_INTERVAL_MS = 60 * 1000;
+
+export type OfflineQueueStatus = {
+  pending: number;
+  failed: number;
+  syncing: boolean;
+  online: boolean;
+};
+
+let status: OfflineQueueStatus = {
+  pending: 0,
+  failed: 0,
+  syncing: false,
+  online: typeof navigator === "undefined" ? true : navigator.onLine,
+};
+const statusListeners = new Set<(status: OfflineQueueStatus) => void>();
+let syncInFlight: { includeFailed: boolean; promise: Promise<void> } | null = null;
+
+function setStatus(next: Partial<OfflineQueueStatus>) {
+  status = { ...status, ...next };
+  statusListeners.forEach((listener) => listener(status));
+}
+
+export function getOfflineQueueStatus(): OfflineQueueStatus {
+  return status;
+}
+
+export function subscribeToOfflineQueueStatus(
+  listener: (status: OfflineQueueStatus) => void
+): () => void {
+  statusListeners.add(listener);
+  listener(status);
+  return () => {
+    statusListeners.delete(listener);
+  };
+}
+
+async function refreshCounts() {
+  try {
+    const queued = await listQueuedSubmissions();
+    setStatus({
+      pending: queued.filter((s) => s.attempts < MAX_AUTO_ATTEMPTS).length,
+      failed: queued.filter((s) => s.attempts >= MAX_AUTO_ATTEMPTS).length,
+    });
+  } catch (error) {
+    logger.log("Offline queue unavailable:", error);
+  }
+}
+
+/** Resolve the "Not Auth" placeholder image, which only stores its asset URL until upload */
+async function resolveImageBlob(image: DraftImage): Promise<DraftImage> {
+  if (!image.assetUrl || image.blob.size > 0) return image;
+  const response = await fetch(image.assetUrl);
+  const blob = await response.blob();
+  return { ...image, blob, fileName: `not-auth-${Date.now()}.png` };
+}
+
+async function replaySubmission(submission: QueuedSubmission) {
+  let current = submission;
+
+  if (current.items.length > 0) {
+    const images = await Promise.all(current.items.map(resolveImageBlob));
+    const results = await uploadGalleryItems(
+      images.map((image) => ({
+        ...image,
+        invoiceNumber: current.invoiceNumber,
+        accountNumber: current.accountNumber,
+      }))
+    );
+
+    // Keep successful uploads on the record so a later retry doesn't upload them twice
+    const succeeded = results.filter((r) => !r.error && r.publicUrl);
+    const succeededIds = new Set(succeeded.map((r) => r.itemId));
+    current = {
+      ...current,
+      items: current.items.filter((item) => !succeededIds.has(item.id)),
+      uploadResults: [...current.uploadResults, ...succeeded],
+    };
+    await updateQueuedSubmission(current);
+
+    if (current.items.length > 0) {
+      throw new Error(`Failed to upload ${current.items.length} image(s)`);
+    }
+  }
+
+  if (current.kind === "damages") {
+    await insertDamagesData(
+      current.invoiceNumber,
+      current.accountNumber,
+      current.uploadResults,
+      current.reason,
+      current.lineItems,
+      current.submissionId ?? current.id
+    );
+  } else if (current.kind === "returns") {
+    await insertReturnData(
+      {
+        creditNumber: current.invoiceNumber,
+        rNumber: current.returnsNumber,
+        accNumber: current.accountNumber,
+        reason: current.reason,
+      },
+      current.uploadResults,
+      current.lineItems,
+      current.submissionId ?? current.id
+    );
+  } else {
+    await insertOverstockData(
+      current.invoiceNumber,
+      current.accountNumber,
+      current.returnsNumber,
+      current.uploadResults,
+      current.reason,
+      current.lineItems,
+      current.submissionId ?? current.id
+    );
+  }
+
+  await removeQueuedSubmission(current.id);
+}
+
+async function runSync(includeFailed: boolean) {
+  // Replays need a signed-in user - without one every insert fails on RLS
+  if (!navigator.onLine || !(await isAuthenticated())) return;
+
+  const queued = await listQueuedSubmissions();
+  const toReplay = queued.filter((s) => includeFailed || s.attempts < MAX_AUTO_ATTEMPTS);
+  if (toReplay.length === 0) return;
+
+  setStatus({ syncing: true });
+  let synced = 0;
+  try {
+    for (const submission of toReplay) {
+      // Stop early if the connection drops again mid-sync
+      if (!navigator.onLine) break;
+      try {
+        await replaySubmission(submission);
+        synced += 1;
+      } catch (error) {
+        logger.log("Offline sync attempt failed for invoice:", submission.invoiceNumber, error);
+        // A session that ran out mid-sync isn't the submission's fault - leave it for after the next sign-in
+        if (!(await getCurrentUser())) break;
+        // Re-read so uploads recorded during this attempt are not lost
+        const latest = (await listQueuedSubmissions()).find((s) => s.id === submission.id) ?? submission;
+        await updateQueuedSubmission({
+          ...latest,
+          attempts: latest.attempts + 1,
+          lastError: sanitizeErrorMessage(error),
+        });
+      }
+    }
+  } finally {
+    setStatus({ syncing: false });
+    await refreshCounts();
+  }
+
+  if (synced > 0) {
+    toast.success(`Synced ${synced} queued submission${synced === 1 ? "" : "s"}`);
+  }
+}
+
+/**
+ * Replay queued submissions now. Failed submissions are only retried when includeFailed is set.
+ * A run that would skip some of them doesn't stand in for one that includes them - that one follows it instead
+ */
+export function syncOfflineQueue({ includeFailed = false }: { includeFailed?: boolean } = {}): Promise<void> {
+  if (syncInFlight && (syncInFlight.includeFailed || !includeFailed)) return syncInFlight.promise;
+
+  const previous = syncInFlight?.promise ?? Promise.resolve();
+  const run = {
+    includeFailed,
+    promise: previous
+      .then(() => runSync(includeFailed))
+      .catch((error) => {
+        logger.log("Offline sync unavailable:", error);
+      })
+      .finally(() => {
+        if (syncInFlight === run) syncInFlight = null;
+      }),
+  };
+  syncInFlight = run;
+  return run.promise;
+}
+
+/**
+ * Start listening for connectivity changes. Returns a cleanup function.
+ */
+export function startOfflineSync(): () => void {
+  const handleOnline = () => {
+    setStatus({ online: true });
+    syncOfflineQueue();
+  };
+  const handleOffline = () => {
+    setStatus({ online: false });
+  };
+
+  window.addEventListener("online", handleOnline);
+  window.addEventListener("offline", handleOffline);
+  const unsubscribeQueue = onQueueChanged(() => {
+    refreshCounts();
+  });
+  // Periodic retry covers flaky connections where the online event never fires
+  const interval = window.setInterval(() => syncOfflineQueue(), SYNC_INTERVAL_MS);
+  // Submissions queued before the session ran out go as soon as someone signs back in
+  const {
+    data: { subscription },
+  } = supabase.auth.onAuthStateChange((event) => {
+    // Deferred - Supabase calls made inside this callback wait on the auth lock it holds
+    if (event === "SIGNED_IN") window.setTimeout(() => syncOfflineQueue(), 0);
+  });
+
+  refreshCounts().then(() => syncOfflineQueue());
+
+  return () => {
+    window.removeEventListener("online", handleOnline);
+    window.removeEventListener("offline", handleOffline);
+    unsubscribeQueue();
+    window.clearInterval(interval);
+    subscription.unsubscribe();
+  };
+}
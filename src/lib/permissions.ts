@@ -0,0 +1,46 @@
+/**
+ * Role-based access rules
+ * These mirror the row level security policies on the database - the UI hides what the database would reject
+ */
+
+export type UserRole = "warehouse" | "sales" | "final" | "admin";
+
+export const USER_ROLES: UserRole[] = ["warehouse", "sales", "final", "admin"];
+
+// Roles allowed to open each route
+export const ROUTE_ROLES = {
+  overstock: ["warehouse", "admin"],
+  damages: ["warehouse", "admin"],
+  returns: ["warehouse", "admin"],
+  sales: ["sales", "admin"],
+  final: ["final", "admin"],
+  admin: ["admin"],
+} satisfies Record<string, UserRole[]>;
+
+export type ReturnField = "warehouse_notes" | "sales_notes" | "team" | "action" | "status";
+
+// Roles allowed to edit each field in ItemDetailsPanel
+const FIELD_ROLES: Record<ReturnField, UserRole[]> = {
+  warehouse_notes: ["warehouse", "admin"],
+  sales_notes: ["sales", "final", "admin"],
+  team: ["sales", "admin"],
+  action: ["sales", "admin"],
+  status: ["sales", "final", "admin"],
+};
+
+/** Narrow unknown metadata values to known roles */
+export function parseRoles(value: unknown): UserRole[] {
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .filter((v): v is string => typeof v === "string")
+    .map((v) => v.trim().toLowerCase())
+    .filter((v): v is UserRole => (USER_ROLES as string[]).includes(v));
+}
+
+export function hasAnyRole(roles: UserRole[], allowed: UserRole[]): boolean {
+  return roles.some((role) => allowed.includes(role));
+}
+
+export function canEditField(roles: UserRole[], field: ReturnField): boolean {
+  return hasAnyRole(roles, FIELD_ROLES[field]);
+}
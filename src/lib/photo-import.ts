@@ -0,0 +1,66 @@
+/**
+ * Import of existing photos (device gallery, desktop folder) into the capture gallery
+ * Each file is validated like an upload, searched for a barcode to pre-fill its code, then processed
+ * to the same size and format as a photo taken in the app
+ */
+
+import { Html5Qrcode, Html5QrcodeSupportedFormats } from "html5-qrcode";
+import { decodeBarcode, fileNameCode, scannerFormats, type DecodedBarcode, type Symbology } from "./barcode-decoders";
+import { imageExtension, processImage } from "./image-processing";
+import { validateFileType, validateImageContent } from "./validation";
+import { logger } from "./logger";
+
+export type ImportedPhoto = {
+  blob: Blob;
+  barcode: DecodedBarcode | null; // Null when no accepted barcode was found in the photo
+};
+
+/** File name for an imported photo once its code is known */
+export function importedFileName(barcode: DecodedBarcode, photo: ImportedPhoto): string {
+  return `${fileNameCode(barcode)}_${Date.now()}.${imageExtension(photo.blob.type)}`;
+}
+
+/** Look for an accepted barcode in a still image, or null when there isn't one */
+async function detectBarcode(file: File, accepted: Symbology[]): Promise<DecodedBarcode | null> {
+  // html5-qrcode needs an element to attach to, even when it isn't shown
+  const host = document.createElement("div");
+  host.id = `photo-import-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  host.style.display = "none";
+  document.body.appendChild(host);
+
+  try {
+    const formatsToSupport = scannerFormats(accepted).map(
+      (name) => Html5QrcodeSupportedFormats[name as keyof typeof Html5QrcodeSupportedFormats]
+    );
+    const scanner = new Html5Qrcode(host.id, { formatsToSupport, verbose: false });
+    const result = await scanner.scanFileV2(file, false);
+    scanner.clear();
+    return decodeBarcode(result.decodedText, accepted, result.result?.format?.formatName);
+  } catch (error) {
+    // Thrown when nothing readable is found - the code is typed in instead
+    logger.log("No barcode found in imported photo", file.name, error);
+    return null;
+  } finally {
+    host.remove();
+  }
+}
+
+/**
+ * Validate, scan and process one imported file
+ * Throws with a user-facing message when the file isn't an image the app accepts
+ */
+export async function importPhoto(file: File, accepted: Symbology[]): Promise<ImportedPhoto> {
+  const typeValidation = validateFileType(file.type);
+  if (!typeValidation.valid) {
+    throw new Error(typeValidation.error || "File type validation failed");
+  }
+  const contentValidation = await validateImageContent(file);
+  if (!contentValidation.valid) {
+    throw new Error(contentValidation.error || "Image content validation failed");
+  }
+
+  // Scan the full-size photo - the barcode may be outside the square the gallery keeps
+  const barcode = await detectBarcode(file, accepted);
+  const image = await processImage(file);
+  return { blob: image.blob, barcode };
+}
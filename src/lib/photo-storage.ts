@@ -0,0 +1,99 @@
+/**
+ * Where return photos are stored and how records link to them
+ * With a public store the images columns hold public URLs. With a private one (see storage-provider)
+ * they hold the object path instead, and photos are shown and downloaded through short-lived signed URLs
+ * VITE_STORAGE_LAYOUT picks the folders new photos go in: "dated" (default) or "invoice"
+ */
+
+import { getStorageProvider } from "./storage-provider";
+
+/** Store is private - records store object paths and photos are read through signed URLs */
+export const PRIVATE_BUCKET = !getStorageProvider().isPublic;
+
+/**
+ * Folder scheme for new uploads
+ * - dated: month_year/day/time_invoice, so photos added to an invoice later land in a new folder
+ * - invoice: account/invoice, so every photo of an invoice sits together
+ */
+export type StorageLayout = "dated" | "invoice";
+
+export const STORAGE_LAYOUT: StorageLayout =
+  String(import.meta.env.VITE_STORAGE_LAYOUT ?? "").trim().toLowerCase() === "invoice" ? "invoice" : "dated";
+
+/** Make a value safe to use as a single folder name */
+export function sanitizeFolder(name = "") {
+  return String(name)
+    .trim()
+    .replace(/[^0-9A-Za-z_-]/g, "_");
+}
+
+/** Folder holding an invoice's photos in the invoice layout, e.g. "ABC123/21000000" */
+export function invoiceFolder(accountNumber: string, invoiceNumber: string | number) {
+  return `${sanitizeFolder(accountNumber) || "unknown"}/${sanitizeFolder(String(invoiceNumber)) || "unknown"}`;
+}
+
+// How long a signed URL stays valid, in seconds
+const SIGNED_URL_TTL_S = 15 * 60;
+// Signed URLs are reused until they are this close to expiring
+const SIGNED_URL_REFRESH_MS = 60 * 1000;
+
+const signedUrlCache = new Map<string, { url: string; expiresAt: number }>();
+
+function isUrl(ref: string) {
+  return /^https?:\/\//i.test(ref);
+}
+
+/** Object path an images entry points at - entries are a public URL or, for a private store, the path itself */
+export function storagePathOf(ref: string): string | null {
+  return isUrl(ref) ? getStorageProvider().pathFromUrl(ref) : ref;
+}
+
+/** File name of an images entry, whichever form it is stored in */
+export function imageFileName(ref: string): string | null {
+  const path = isUrl(ref) ? new URL(ref).pathname : ref;
+  return path.split("/").pop() || null;
+}
+
+/** Value to store in an images column for an uploaded object */
+export function imageReference(path: string): string {
+  return getStorageProvider().publicUrl(path) ?? path;
+}
+
+/**
+ * URLs the browser can load for stored images entries, in the same order
+ * Paths (and public URLs of this store, once it has been made private) are signed; other URLs pass through
+ */
+export async function resolveImageUrls(refs: string[]): Promise<string[]> {
+  const provider = getStorageProvider();
+  const paths = refs.map((ref) => {
+    if (!isUrl(ref)) return ref;
+    return PRIVATE_BUCKET ? provider.pathFromUrl(ref) : null;
+  });
+
+  // A store switched back to public can still have paths stored from while it was private
+  if (!PRIVATE_BUCKET) {
+    return refs.map((ref, i) => (paths[i] ? imageReference(paths[i]!) : ref));
+  }
+
+  const now = Date.now();
+  const toSign = [
+    ...new Set(
+      paths.filter((path): path is string => {
+        const cached = path ? signedUrlCache.get(path) : undefined;
+        return !!path && (!cached || cached.expiresAt - now < SIGNED_URL_REFRESH_MS);
+      })
+    ),
+  ];
+
+  if (toSign.length > 0) {
+    const signed = provider.getUrls
+      ? await provider.getUrls(toSign, SIGNED_URL_TTL_S)
+      : new Map(await Promise.all(toSign.map(async (path) => [path, await provider.getUrl(path, SIGNED_URL_TTL_S)] as const)));
+    signed.forEach((url, path) => signedUrlCache.set(path, { url, expiresAt: now + SIGNED_URL_TTL_S * 1000 }));
+  }
+
+  return refs.map((ref, i) => {
+    const path = paths[i];
+    return path ? signedUrlCache.get(path)?.url ?? ref : ref;
+  });
+}
@@ -0,0 +1,230 @@
+/**
+ * Reference data for teams, actions and statuses
+ * Return records store 'value', which never changes once created - renaming only changes the label,
+ * and retired values are hidden from pickers but still display on historic records
+ *
+ * Expected table 'returns-app-reference':
+ *   id (bigint, identity), kind (text), value (text), label (text), sort_order (int),
+ *   retired (boolean, default false), unique (kind, value)
+ */
+
+import { supabase } from "./supabaseClient";
+import { logger } from "./logger";
+import { STATUS_WORKFLOW, isWorkflowStatus } from "./status-workflow";
+
+const REFERENCE_TABLE = "returns-app-reference";
+
+export type ReferenceKind = "team" | "action" | "status";
+
+export type ReferenceValue = {
+  id: number | null; // null for built-in defaults that haven't been saved to the table yet
+  kind: ReferenceKind;
+  value: string;
+  label: string;
+  sort_order: number;
+  retired: boolean;
+};
+
+export type ReferenceData = Record<ReferenceKind, ReferenceValue[]>;
+
+export const REFERENCE_KINDS: ReferenceKind[] = ["team", "action", "status"];
+
+function defaults(kind: ReferenceKind, values: string[]): ReferenceValue[] {
+  return values.map((value, index) => ({
+    id: null,
+    kind,
+    value,
+    label: value,
+    sort_order: index,
+    retired: false,
+  }));
+}
+
+// Used for any kind with no rows in the table
+const DEFAULT_REFERENCE_DATA: ReferenceData = {
+  team: defaults("team", ["Uk Sales", "Export", "Supermarket", "Amazon", "Exceptions"]),
+  action: defaults("action", ["Pulp", "Back to Stock", "Credit", "Return to Customer"]),
+  status: defaults("status", STATUS_WORKFLOW.map((status) => status.id)),
+};
+
+let cached: ReferenceData = DEFAULT_REFERENCE_DATA;
+let loading: Promise<ReferenceData> | null = null;
+const listeners = new Set<(data: ReferenceData) => void>();
+
+function setCached(data: ReferenceData) {
+  cached = data;
+  listeners.forEach((listener) => listener(data));
+}
+
+/** Reference data as last loaded (built-in defaults until the first load finishes) */
+export function getReferenceData(): ReferenceData {
+  return cached;
+}
+
+/** Load reference data from the table, at most once unless forced */
+export function loadReferenceData(force = false): Promise<ReferenceData> {
+  if (loading && !force) return loading;
+
+  loading = (async () => {
+    const { data, error } = await supabase
+      .from(REFERENCE_TABLE)
+      .select()
+      .order("sort_order", { ascending: true });
+
+    if (error) {
+      logger.error("Error loading reference data:", error);
+      loading = null;
+      return cached;
+    }
+
+    const rows = (data ?? []) as ReferenceValue[];
+    const loaded = Object.fromEntries(
+      REFERENCE_KINDS.map((kind) => {
+        const values = rows.filter((row) => row.kind === kind);
+        // Statuses are limited to the states the workflow knows how to handle
+        const usable =
+          kind === "status"
+            ? values.filter((row) => STATUS_WORKFLOW.some((status) => status.id === row.value))
+            : values;
+        return [kind, usable.length > 0 ? usable : DEFAULT_REFERENCE_DATA[kind]];
+      })
+    ) as ReferenceData;
+
+    setCached(loaded);
+    return loaded;
+  })();
+
+  return loading;
+}
+
+export function subscribeToReferenceData(listener: (data: ReferenceData) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Values to offer in a picker - active values, plus the current one if it has since been retired */
+export function pickerOptions(data: ReferenceData, kind: ReferenceKind, current?: string | null): ReferenceValue[] {
+  const values = data[kind];
+  const active = values.filter((item) => !item.retired);
+  if (!current || active.some((item) => item.value === current)) return active;
+
+  const existing = values.find((item) => item.value === current);
+  return [...active, existing ?? { ...defaults(kind, [current])[0], retired: true }];
+}
+
+/** Display label for a stored value (falls back to the value itself for unknown values) */
+export function referenceLabel(values: ReferenceValue[], value: string | null | undefined): string {
+  if (!value) return "";
+  return values.find((item) => item.value === value)?.label ?? value;
+}
+
+// Admin operations
+
+function toError(error: { code?: string; message?: string }, fallback: string): Error {
+  if (error.code === "42501") {
+    return new Error("You don't have permission to change reference data.");
+  }
+  if (error.code === "23505") {
+    return new Error("That value already exists.");
+  }
+  return new Error(fallback);
+}
+
+/** Save the built-in defaults for a kind so they can be edited */
+async function ensureStored(kind: ReferenceKind): Promise<ReferenceValue[]> {
+  const current = cached[kind];
+  if (current.every((item) => item.id !== null)) return current;
+
+  const rows = current
+    .filter((item) => item.id === null)
+    .map(({ value, label, sort_order, retired }) => ({ kind, value, label, sort_order, retired }));
+  const { error } = await supabase.from(REFERENCE_TABLE).insert(rows);
+  if (error) {
+    logger.error("Error saving reference data:", error);
+    throw toError(error, "Failed to save reference data. Please try again.");
+  }
+  return (await loadReferenceData(true))[kind];
+}
+
+/** Add a new team or action at the end of the list */
+async function create(kind: ReferenceKind, label: string): Promise<void> {
+  if (kind === "status") {
+    throw new Error("New statuses must be added to the status workflow.");
+  }
+  const value = label.trim();
+  if (!value) {
+    throw new Error("Please enter a name.");
+  }
+
+  const values = await ensureStored(kind);
+  const sortOrder = values.reduce((max, item) => Math.max(max, item.sort_order), -1) + 1;
+  const { error } = await supabase
+    .from(REFERENCE_TABLE)
+    .insert({ kind, value, label: value, sort_order: sortOrder, retired: false });
+  if (error) {
+    logger.error("Error adding reference value:", error);
+    throw toError(error, "Failed to add value. Please try again.");
+  }
+  await loadReferenceData(true);
+}
+
+async function updateStored(
+  item: ReferenceValue,
+  changes: Partial<Pick<ReferenceValue, "label" | "sort_order" | "retired">>
+): Promise<void> {
+  const values = await ensureStored(item.kind);
+  const stored = values.find((row) => row.value === item.value);
+  if (!stored?.id) {
+    throw new Error("This value no longer exists. Please refresh.");
+  }
+
+  const { error } = await supabase.from(REFERENCE_TABLE).update(changes).eq("id", stored.id);
+  if (error) {
+    logger.error("Error updating reference value:", error);
+    throw toError(error, "Failed to update value. Please try again.");
+  }
+}
+
+/** Change the label shown for a value - records keep the original value */
+async function rename(item: ReferenceValue, label: string): Promise<void> {
+  if (!label.trim()) {
+    throw new Error("Please enter a name.");
+  }
+  await updateStored(item, { label: label.trim() });
+  await loadReferenceData(true);
+}
+
+/** Workflow statuses can't be retired - hiding one (e.g. the only closed state) would strand returns */
+function canRetire(item: ReferenceValue): boolean {
+  return !(item.kind === "status" && isWorkflowStatus(item.value));
+}
+
+/** Hide a value from pickers (or bring it back) without affecting existing records */
+async function setRetired(item: ReferenceValue, retired: boolean): Promise<void> {
+  if (retired && !canRetire(item)) {
+    throw new Error(`"${item.label}" is part of the return workflow and can't be retired.`);
+  }
+  await updateStored(item, { retired });
+  await loadReferenceData(true);
+}
+
+/** Save a new display order for a kind */
+async function reorder(kind: ReferenceKind, ordered: ReferenceValue[]): Promise<void> {
+  await ensureStored(kind);
+  for (const [index, item] of ordered.entries()) {
+    if (item.sort_order !== index) {
+      await updateStored(item, { sort_order: index });
+    }
+  }
+  await loadReferenceData(true);
+}
+
+export const referenceDataAdmin = {
+  create,
+  rename,
+  canRetire,
+  setRetired,
+  reorder,
+};
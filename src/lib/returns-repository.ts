@@ -0,0 +1,604 @@
+/**
+ * Typed data access for the 'returns-app' table
+ * All reads and writes of return records go through here so schema changes are caught at compile time
+ */
+
+import { supabase } from "./supabaseClient";
+import { logger } from "./logger";
+import { recordAuditEvent, diffFields } from "./audit-log";
+import {
+  INITIAL_STATUS,
+  getStatus,
+  isAssessedStatus,
+  isClosedStatus,
+  isWorkflowStatus,
+  statusIdsWhere,
+  type WorkflowStatus,
+} from "./status-workflow";
+
+const TABLE = "returns-app";
+
+export type ReturnStatus = WorkflowStatus;
+// Teams and actions are admin-managed reference data (see reference-data.ts)
+export type ReturnAction = string;
+export type ReturnTeam = string;
+// Which capture screen logged the return
+export type ReturnSource = "overstock" | "damages" | "returns";
+
+export type ReturnRecord = {
+  InvoiceNumber: number;
+  rNumber: number | null; // null for damages
+  accountNumber: string;
+  images: string[];
+  created_at: string;
+  sales_notes: string | null;
+  warehouse_notes: string | null;
+  status: ReturnStatus | null;
+  action: ReturnAction | null;
+  team: ReturnTeam | null;
+  source: ReturnSource | null; // null on rows logged before the source was recorded
+  updated_at: string | null; // Bumped on every write, used for optimistic concurrency (null on older rows)
+};
+
+export type NewReturnRecord = Pick<ReturnRecord, "InvoiceNumber" | "rNumber" | "accountNumber" | "images"> &
+  Partial<Pick<ReturnRecord, "created_at" | "sales_notes" | "warehouse_notes" | "status" | "action" | "team" | "source">>;
+
+export type ReturnRecordUpdate = Partial<
+  Pick<ReturnRecord, "sales_notes" | "warehouse_notes" | "status" | "action" | "team" | "images">
+>;
+
+/** Filter values as held by the Search component - "All" (or empty) means no filter */
+export type ReturnListFilters = {
+  search?: string;
+  team?: string;
+  month?: string; // "Jan".."Dec"
+  year?: string; // Shorthand ("25") or full ("2025")
+  assigned?: string; // "Assigned" | "Unassigned"
+  assessed?: string; // "Assessed" | "Unassessed"
+  completedOnly?: boolean; // Final screen shows only closed statuses, Sales shows everything else
+  source?: ReturnSource; // Only returns logged from this capture screen
+};
+
+export type ReturnListPage = {
+  records: ReturnRecord[];
+  nextCursor: string | null; // Pass back to listPage for the next page, null when there are no more rows
+};
+
+/** Thrown by update when the record was changed by someone else since it was loaded */
+export class UpdateConflictError extends Error {
+  latest: ReturnRecord;
+
+  constructor(latest: ReturnRecord) {
+    super("This return was changed by someone else. Please review their changes.");
+    this.name = "UpdateConflictError";
+    this.latest = latest;
+  }
+}
+
+export type ReturnRecordChange =
+  | { type: "INSERT" | "UPDATE"; record: ReturnRecord }
+  | { type: "DELETE"; invoiceNumber: number };
+
+// Fields a sales/final user edits in ItemDetailsPanel
+export type EditableReturnFields = Pick<ReturnRecord, "sales_notes" | "warehouse_notes" | "team" | "action" | "status">;
+
+const DEFAULT_PAGE_SIZE = 50;
+// Rows per request when collecting every image URL (PostgREST caps responses at 1000 rows)
+const IMAGE_URL_PAGE_SIZE = 1000;
+// Attempts at rewriting a return's images before giving up on concurrent writes
+const REWRITE_ATTEMPTS = 5;
+// Attempts at an update that didn't ask for a version check, before giving up on concurrent writes
+const UPDATE_ATTEMPTS = 3;
+const MONTH_ABBREVS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+// When a month is picked without a year, match that month in each of the years offered in Search
+const MONTH_ONLY_YEARS = 5;
+// Invoice and R numbers are always 8 digits, so a numeric search is a prefix match on that range
+const REFERENCE_NUMBER_DIGITS = 8;
+
+// Raw row as returned by Supabase - images may be stored as a JSON string on older rows
+type ReturnRow = Omit<ReturnRecord, "images"> & { images: string[] | string | null };
+
+/** Parse the images column (handles both array and JSON string) */
+function parseImages(images: ReturnRow["images"]): string[] {
+  if (!images) return [];
+  if (Array.isArray(images)) return images;
+  try {
+    const parsed = JSON.parse(images);
+    return Array.isArray(parsed) ? parsed : [images];
+  } catch {
+    return [images];
+  }
+}
+
+function toRecord(row: ReturnRow): ReturnRecord {
+  return { ...row, images: parseImages(row.images), source: row.source ?? null };
+}
+
+/** Capture screen a return came from - older rows without a source are inferred from the R number */
+export function returnSource(record: Pick<ReturnRecord, "source" | "rNumber">): ReturnSource {
+  return record.source ?? (record.rNumber === null ? "damages" : "overstock");
+}
+
+/** Values tracked in the audit trail - images are recorded as a count */
+function auditValues(record: Partial<ReturnRecord>) {
+  return {
+    accountNumber: record.accountNumber,
+    rNumber: record.rNumber,
+    sales_notes: record.sales_notes,
+    warehouse_notes: record.warehouse_notes,
+    team: record.team,
+    action: record.action,
+    status: record.status,
+    images: record.images?.length,
+  };
+}
+
+/** Convert a Supabase error into a user-friendly Error */
+function toError(error: { code?: string }, fallback: string): Error {
+  if (error.code === "42501") {
+    return new Error("You do not have permission to perform this action. Please contact your administrator.");
+  }
+  return new Error(fallback);
+}
+
+/** Fetch every return record */
+async function list(): Promise<ReturnRecord[]> {
+  const { data, error } = await supabase.from(TABLE).select();
+  if (error) {
+    logger.error("Error fetching rows:", error);
+    throw toError(error, "Failed to load returns. Please try again.");
+  }
+  return ((data ?? []) as ReturnRow[]).map(toRecord);
+}
+
+/** Invoice, account and images of every return, for storage maintenance */
+async function listImageSets(): Promise<Array<Pick<ReturnRecord, "InvoiceNumber" | "accountNumber" | "images">>> {
+  const sets: Array<Pick<ReturnRecord, "InvoiceNumber" | "accountNumber" | "images">> = [];
+  for (let from = 0; ; from += IMAGE_URL_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(TABLE)
+      .select("InvoiceNumber, accountNumber, images")
+      .order("InvoiceNumber", { ascending: true })
+      .range(from, from + IMAGE_URL_PAGE_SIZE - 1);
+    if (error) {
+      logger.error("Error fetching rows:", error);
+      throw toError(error, "Failed to load returns. Please try again.");
+    }
+    const rows = (data ?? []) as Array<Pick<ReturnRow, "InvoiceNumber" | "accountNumber" | "images">>;
+    rows.forEach((row) => sets.push({ ...row, images: parseImages(row.images) }));
+    if (rows.length < IMAGE_URL_PAGE_SIZE) return sets;
+  }
+}
+
+/** Every image URL referenced by a return, for storage maintenance */
+async function listImageUrls(): Promise<string[]> {
+  return (await listImageSets()).flatMap((set) => set.images);
+}
+
+function isSet(value?: string): value is string {
+  return !!value && value.trim() !== "" && value.trim() !== "All";
+}
+
+/** Resolve "25" or "2025" to a full year */
+function parseYear(year: string): number | null {
+  const trimmed = year.trim();
+  if (!/^\d{2}(\d{2})?$/.test(trimmed)) return null;
+  return trimmed.length === 2 ? 2000 + parseInt(trimmed, 10) : parseInt(trimmed, 10);
+}
+
+/** [start, end) ISO ranges on created_at for the month/year filters, in local time */
+function createdAtRanges(month?: string, year?: string): Array<[string, string]> {
+  const monthIndex = isSet(month) ? MONTH_ABBREVS.indexOf(month.trim()) : -1;
+  const fullYear = isSet(year) ? parseYear(year) : null;
+
+  if (fullYear !== null && monthIndex >= 0) {
+    return [[new Date(fullYear, monthIndex, 1).toISOString(), new Date(fullYear, monthIndex + 1, 1).toISOString()]];
+  }
+  if (fullYear !== null) {
+    return [[new Date(fullYear, 0, 1).toISOString(), new Date(fullYear + 1, 0, 1).toISOString()]];
+  }
+  if (monthIndex >= 0) {
+    const currentYear = new Date().getFullYear();
+    return Array.from({ length: MONTH_ONLY_YEARS }, (_, i) => {
+      const y = currentYear - i;
+      return [new Date(y, monthIndex, 1).toISOString(), new Date(y, monthIndex + 1, 1).toISOString()] as [string, string];
+    });
+  }
+  return [];
+}
+
+/** PostgREST filter fragment matching 8-digit numbers that start with the given digits */
+function numericPrefixFilter(column: string, digits: string): string {
+  if (digits.length >= REFERENCE_NUMBER_DIGITS) {
+    return `${column}.eq.${digits.slice(0, REFERENCE_NUMBER_DIGITS)}`;
+  }
+  const scale = 10 ** (REFERENCE_NUMBER_DIGITS - digits.length);
+  const start = parseInt(digits, 10) * scale;
+  return `and(${column}.gte.${start},${column}.lt.${start + scale})`;
+}
+
+/** Quote a value for use inside a PostgREST or() filter */
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+function encodeCursor(record: ReturnRecord): string {
+  return `${record.created_at}|${record.InvoiceNumber}`;
+}
+
+function decodeCursor(cursor: string): { createdAt: string; invoiceNumber: number } | null {
+  const separator = cursor.lastIndexOf("|");
+  if (separator < 0) return null;
+  const invoiceNumber = parseInt(cursor.slice(separator + 1), 10);
+  if (Number.isNaN(invoiceNumber)) return null;
+  return { createdAt: cursor.slice(0, separator), invoiceNumber };
+}
+
+/**
+ * Fetch one page of returns matching the filters, newest first.
+ * Paging is keyset-based on (created_at, InvoiceNumber) so rows inserted while scrolling don't shift pages.
+ */
+async function listPage(
+  filters: ReturnListFilters,
+  cursor: string | null = null,
+  pageSize: number = DEFAULT_PAGE_SIZE
+): Promise<ReturnListPage> {
+  let request = supabase.from(TABLE).select();
+
+  // Status: Final only shows closed statuses, Sales hides them (rows without a status count as open)
+  const assessed = filters.assessed?.trim();
+  const statuses = statusIdsWhere(
+    (status) =>
+      status.closed === !!filters.completedOnly &&
+      (assessed === "Assessed" ? status.assessed : assessed === "Unassessed" ? !status.assessed : true)
+  );
+  const includeNoStatus = !filters.completedOnly && assessed !== "Assessed";
+  if (statuses.length === 0 && !includeNoStatus) {
+    return { records: [], nextCursor: null };
+  }
+  const statusList = `(${statuses.map(quote).join(",")})`;
+  request = includeNoStatus
+    ? request.or(statuses.length > 0 ? `status.is.null,status.in.${statusList}` : "status.is.null")
+    : request.filter("status", "in", statusList);
+
+  if (filters.source) {
+    request = request.eq("source", filters.source);
+  }
+
+  // Team and assignment
+  if (isSet(filters.team)) {
+    if (filters.assigned?.trim() === "Unassigned") {
+      return { records: [], nextCursor: null };
+    }
+    request = request.eq("team", filters.team.trim());
+  } else if (filters.assigned?.trim() === "Assigned") {
+    request = request.not("team", "is", null).neq("team", "");
+  } else if (filters.assigned?.trim() === "Unassigned") {
+    request = request.or('team.is.null,team.eq.""');
+  }
+
+  // Month / year
+  const ranges = createdAtRanges(filters.month, filters.year);
+  if (ranges.length === 1) {
+    request = request.gte("created_at", ranges[0][0]).lt("created_at", ranges[0][1]);
+  } else if (ranges.length > 1) {
+    request = request.or(
+      ranges.map(([start, end]) => `and(created_at.gte.${quote(start)},created_at.lt.${quote(end)})`).join(",")
+    );
+  }
+
+  // Free text: account number substring, invoice / R number prefix
+  const search = filters.search?.trim().replace(/[,()*%"\\]/g, "") ?? "";
+  if (search) {
+    const conditions = [`accountNumber.ilike.${quote(`%${search}%`)}`];
+    if (/^\d+$/.test(search)) {
+      conditions.push(numericPrefixFilter("InvoiceNumber", search), numericPrefixFilter("rNumber", search));
+    }
+    request = request.or(conditions.join(","));
+  }
+
+  // Keyset paging - continue after the last row of the previous page
+  const after = cursor ? decodeCursor(cursor) : null;
+  if (after) {
+    request = request.or(
+      `created_at.lt.${quote(after.createdAt)},and(created_at.eq.${quote(after.createdAt)},InvoiceNumber.lt.${after.invoiceNumber})`
+    );
+  }
+
+  // Fetch one extra row to know whether another page exists
+  const { data, error } = await request
+    .order("created_at", { ascending: false, nullsFirst: false })
+    .order("InvoiceNumber", { ascending: false })
+    .limit(pageSize + 1);
+
+  if (error) {
+    logger.error("Error fetching rows:", error);
+    throw toError(error, "Failed to load returns. Please try again.");
+  }
+
+  const rows = ((data ?? []) as ReturnRow[]).map(toRecord);
+  const records = rows.slice(0, pageSize);
+  const nextCursor = rows.length > pageSize ? encodeCursor(records[records.length - 1]) : null;
+  return { records, nextCursor };
+}
+
+/**
+ * Client-side equivalent of the listPage filters, used to place realtime changes in an already loaded list
+ */
+export function matchesFilters(record: ReturnRecord, filters: ReturnListFilters): boolean {
+  const assessed = filters.assessed?.trim();
+  if (record.status && !getStatus(record.status)) return false; // Unknown statuses aren't listed
+  if (isClosedStatus(record.status) !== !!filters.completedOnly) return false;
+  if (assessed === "Assessed" && !isAssessedStatus(record.status)) return false;
+  if (assessed === "Unassessed" && isAssessedStatus(record.status)) return false;
+  if (filters.source && record.source !== filters.source) return false;
+
+  const team = (record.team || "").trim();
+  if (isSet(filters.team) && team !== filters.team.trim()) return false;
+  if (filters.assigned?.trim() === "Assigned" && !team) return false;
+  if (filters.assigned?.trim() === "Unassigned" && team) return false;
+
+  const ranges = createdAtRanges(filters.month, filters.year);
+  if (ranges.length > 0) {
+    const created = new Date(record.created_at).getTime();
+    if (Number.isNaN(created)) return false;
+    const inRange = ranges.some(([start, end]) => created >= new Date(start).getTime() && created < new Date(end).getTime());
+    if (!inRange) return false;
+  }
+
+  const search = filters.search?.trim().toLowerCase() ?? "";
+  if (search) {
+    const numeric = /^\d+$/.test(search);
+    const matches =
+      String(record.accountNumber || "").toLowerCase().includes(search) ||
+      (numeric && String(record.InvoiceNumber).startsWith(search)) ||
+      (numeric && record.rNumber !== null && String(record.rNumber).startsWith(search));
+    if (!matches) return false;
+  }
+
+  return true;
+}
+
+/** Newest first, matching the listPage ordering */
+export function compareNewestFirst(a: ReturnRecord, b: ReturnRecord): number {
+  const byDate = new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+  return byDate !== 0 ? byDate : b.InvoiceNumber - a.InvoiceNumber;
+}
+
+// Editable fields as held by a form, before they are checked
+export type EditableFieldValues = { [K in keyof EditableReturnFields]: string | null };
+
+/** True when the user-editable fields are equal (treating empty and null as the same) */
+export function hasSameEditableFields(a: EditableFieldValues, b: EditableFieldValues): boolean {
+  const fields: Array<keyof EditableReturnFields> = ["sales_notes", "warehouse_notes", "team", "action", "status"];
+  return fields.every((field) => (a[field] || "") === (b[field] || ""));
+}
+
+/** Form values as stored fields - empty values become null and the status must be a workflow state */
+export function toEditableFields(
+  values: EditableFieldValues
+): Omit<EditableReturnFields, "sales_notes" | "warehouse_notes"> & { sales_notes: string; warehouse_notes: string } {
+  const status = values.status || null;
+  if (status !== null && !isWorkflowStatus(status)) {
+    throw new Error(`Unknown status "${status}"`);
+  }
+  return {
+    warehouse_notes: values.warehouse_notes || "",
+    sales_notes: values.sales_notes || "",
+    // Teams and actions are admin-managed, so any stored value is accepted
+    team: values.team || null,
+    action: values.action || null,
+    status,
+  };
+}
+
+/** Fetch a single return by invoice number, or null if none exists */
+async function getByInvoice(invoiceNumber: number): Promise<ReturnRecord | null> {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select()
+    .eq("InvoiceNumber", invoiceNumber)
+    .maybeSingle();
+  if (error) {
+    logger.error("Error fetching record:", error);
+    throw toError(error, "Failed to load record. Please try again.");
+  }
+  return data ? toRecord(data as ReturnRow) : null;
+}
+
+/**
+ * Swap image entries of a return in place, e.g. after the photos were moved in storage
+ * Storage-only housekeeping: updated_at is left alone and no audit event is written. The write only applies
+ * if the row is unchanged since it was read, so images appended meanwhile are never lost - it re-reads and
+ * tries again instead. Returns false when the return no longer exists.
+ */
+async function rewriteImages(invoiceNumber: number, rewrite: (ref: string) => string): Promise<boolean> {
+  for (let attempt = 0; attempt < REWRITE_ATTEMPTS; attempt++) {
+    const current = await getByInvoice(invoiceNumber);
+    if (!current) return false;
+    const images = current.images.map(rewrite);
+    if (images.every((ref, i) => ref === current.images[i])) return true;
+
+    let request = supabase.from(TABLE).update({ images }).eq("InvoiceNumber", invoiceNumber);
+    // Every other write bumps updated_at, so an unchanged value means nothing was written in between
+    request = current.updated_at === null ? request.is("updated_at", null) : request.eq("updated_at", current.updated_at);
+    const { data, error } = await request.select("InvoiceNumber");
+    if (error) {
+      logger.error("Supabase update error:", error);
+      throw toError(error, "Failed to update images. Please try again.");
+    }
+    if ((data ?? []).length > 0) return true;
+  }
+  throw new Error("The return kept changing while its images were updated. Please try again.");
+}
+
+/** Insert a new return record */
+async function create(record: NewReturnRecord): Promise<ReturnRecord[]> {
+  const row: ReturnRecord = {
+    created_at: new Date().toISOString(), // Full ISO string with date and time
+    sales_notes: "",
+    warehouse_notes: "",
+    status: INITIAL_STATUS,
+    action: null,
+    team: null,
+    source: null,
+    ...record,
+    updated_at: new Date().toISOString(),
+  };
+
+  const { data, error } = await supabase.from(TABLE).insert(row).select();
+  if (error) {
+    logger.error("Supabase insert error:", error);
+    throw toError(error, "Failed to save data. Please try again.");
+  }
+
+  await recordAuditEvent(row.InvoiceNumber, "created", diffFields({}, auditValues(row)));
+  return ((data ?? []) as ReturnRow[]).map(toRecord);
+}
+
+/**
+ * Append images to an existing return, skipping URLs already present.
+ * An optional note is appended to the warehouse notes on a new line, unless the notes already hold it
+ * (a retried submission whose first attempt saved the return but not its line items).
+ */
+async function appendImages(
+  existing: ReturnRecord,
+  imageUrls: string[],
+  warehouseNote?: string
+): Promise<ReturnRecord[]> {
+  let current: ReturnRecord | null = existing;
+  for (let attempt = 0; current && attempt < UPDATE_ATTEMPTS; attempt++) {
+    const allImages = [...current.images];
+    imageUrls.forEach((url) => {
+      if (!allImages.includes(url)) {
+        allImages.push(url);
+      }
+    });
+
+    let warehouseNotes = current.warehouse_notes || "";
+    if (warehouseNote && !`\n${warehouseNotes}\n`.includes(`\n${warehouseNote}\n`)) {
+      warehouseNotes = warehouseNotes ? `${warehouseNotes}\n${warehouseNote}` : warehouseNote;
+    }
+
+    // Only replace the row that was read, so images or notes saved meanwhile aren't lost
+    let request = supabase
+      .from(TABLE)
+      .update({ images: allImages, warehouse_notes: warehouseNotes, updated_at: new Date().toISOString() })
+      .eq("InvoiceNumber", current.InvoiceNumber);
+    request = current.updated_at === null ? request.is("updated_at", null) : request.eq("updated_at", current.updated_at);
+    const { data, error } = await request.select();
+    if (error) {
+      logger.error("Supabase update error:", error);
+      throw toError(error, "Failed to update existing record. Please try again.");
+    }
+
+    const rows = ((data ?? []) as ReturnRow[]).map(toRecord);
+    if (rows.length === 0) {
+      current = await getByInvoice(existing.InvoiceNumber);
+      continue;
+    }
+
+    await recordAuditEvent(
+      current.InvoiceNumber,
+      "images_appended",
+      diffFields(
+        { images: current.images.length, warehouse_notes: current.warehouse_notes },
+        { images: allImages.length, warehouse_notes: warehouseNotes }
+      )
+    );
+
+    logger.log(`Successfully appended ${imageUrls.length} image(s) to existing record. Total images: ${allImages.length}`);
+    return rows;
+  }
+  throw new Error("Failed to update existing record. Please try again.");
+}
+
+/**
+ * Update fields on a return by invoice number.
+ * When expectedUpdatedAt is given the update only applies if the row is unchanged since it was loaded,
+ * otherwise an UpdateConflictError carrying the latest record is thrown.
+ */
+async function update(
+  invoiceNumber: number,
+  changes: ReturnRecordUpdate,
+  options: { expectedUpdatedAt?: string | null } = {}
+): Promise<ReturnRecord[]> {
+  const checkVersion = options.expectedUpdatedAt !== undefined;
+
+  for (let attempt = 0; attempt < UPDATE_ATTEMPTS; attempt++) {
+    // Read the current values first so the audit trail can record what changed
+    const before = await getByInvoice(invoiceNumber);
+    if (!before) return [];
+
+    // Only replace the row that was read, so the recorded diff can't take in someone else's concurrent change
+    const expected = checkVersion ? options.expectedUpdatedAt : before.updated_at;
+    let request = supabase
+      .from(TABLE)
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq("InvoiceNumber", invoiceNumber);
+    request = expected === null || expected === undefined
+      ? request.is("updated_at", null)
+      : request.eq("updated_at", expected);
+
+    const { data, error } = await request.select();
+    if (error) {
+      logger.error("Supabase update error:", error);
+      throw toError(error, "Failed to update data. Please try again.");
+    }
+
+    const rows = ((data ?? []) as ReturnRow[]).map(toRecord);
+    if (rows.length > 0) {
+      await recordAuditEvent(invoiceNumber, "updated", diffFields(auditValues(before), auditValues(rows[0])));
+      return rows;
+    }
+
+    // Nothing matched - either the row changed underneath us or it no longer exists
+    if (checkVersion) {
+      const latest = await getByInvoice(invoiceNumber);
+      if (latest) {
+        throw new UpdateConflictError(latest);
+      }
+      return rows;
+    }
+    // Changed between the read and the write without the caller caring which version - read it again
+  }
+  throw new Error("This return kept changing while it was being saved. Please try again.");
+}
+
+/**
+ * Listen for inserts, updates and deletes on the table. Returns an unsubscribe function.
+ * The table must be part of the supabase_realtime publication for events to be delivered.
+ */
+function subscribe(onChange: (change: ReturnRecordChange) => void): () => void {
+  const channel = supabase
+    .channel(`${TABLE}-changes-${Math.random().toString(36).slice(2)}`)
+    .on("postgres_changes", { event: "*", schema: "public", table: TABLE }, (payload) => {
+      if (payload.eventType === "DELETE") {
+        // Without REPLICA IDENTITY FULL only the primary key is sent for deletes
+        const old = payload.old as Partial<ReturnRow>;
+        if (old.InvoiceNumber !== undefined) {
+          onChange({ type: "DELETE", invoiceNumber: old.InvoiceNumber });
+        }
+        return;
+      }
+      onChange({ type: payload.eventType, record: toRecord(payload.new as ReturnRow) });
+    })
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+export const returnsRepository = {
+  list,
+  listPage,
+  listImageSets,
+  listImageUrls,
+  getByInvoice,
+  create,
+  appendImages,
+  rewriteImages,
+  update,
+  subscribe,
+};
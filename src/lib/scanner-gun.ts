@@ -0,0 +1,50 @@
+/**
+ * Keyboard-wedge barcode scanners ("scanner guns")
+ * A gun types the code as a burst of keystrokes far faster than a person can, followed by Enter
+ */
+
+// Longest gap between keystrokes from a gun - people don't type this fast
+const MAX_KEY_INTERVAL_MS = 50;
+// Shorter bursts are treated as typing (fast double presses, autorepeat)
+const MIN_SCAN_LENGTH = 4;
+
+/** True for inputs, textareas and other elements that take typed text */
+export function isEditableElement(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target.isContentEditable;
+}
+
+/**
+ * Keydown handler that recognises scanner bursts and reports the scanned text with the element that had focus.
+ * The Enter ending a burst is swallowed so it doesn't submit a form or press a focused button.
+ */
+export function createScanDetector(onScan: (value: string, target: EventTarget | null) => void) {
+  let buffer = "";
+  let lastKeyAt = 0;
+
+  return (event: KeyboardEvent) => {
+    if (event.ctrlKey || event.metaKey || event.altKey) {
+      buffer = "";
+      return;
+    }
+
+    const now = performance.now();
+    const fast = now - lastKeyAt <= MAX_KEY_INTERVAL_MS;
+
+    if (event.key === "Enter") {
+      if (fast && buffer.length >= MIN_SCAN_LENGTH) {
+        event.preventDefault();
+        event.stopPropagation();
+        onScan(buffer, event.target);
+      }
+      buffer = "";
+      return;
+    }
+
+    // Ignore Shift and other non-character keys (guns send Shift for upper case)
+    if (event.key.length !== 1) return;
+
+    buffer = fast ? buffer + event.key : event.key;
+    lastKeyAt = now;
+  };
+}
@@ -0,0 +1,146 @@
+/**
+ * Status workflow for return records
+ * States, allowed transitions, required fields and automatic transitions live here so a new state
+ * only needs adding to STATUS_WORKFLOW - the list, filters and detail panels all read from it
+ */
+
+export type WorkflowField = "team" | "action";
+
+export type StatusDefinition = {
+  id: string; // Value stored in the 'status' column
+  label: string;
+  color: string; // Tailwind class for the list status dot
+  closed: boolean; // Closed returns leave the Sales list and appear on the Final list
+  assessed: boolean; // Counts as "Assessed" in the Search filter
+  transitions: readonly string[]; // States this one can move to
+  requires: readonly WorkflowField[]; // Fields that must be set to enter this state
+};
+
+export const STATUS_WORKFLOW = [
+  {
+    id: "Logged",
+    label: "Logged",
+    color: "bg-red-600",
+    closed: false,
+    assessed: false,
+    transitions: ["Assessed", "Completed"],
+    requires: [],
+  },
+  {
+    id: "Assessed",
+    label: "Assessed",
+    color: "bg-orange-600",
+    closed: false,
+    assessed: true,
+    transitions: ["Logged", "Completed"],
+    requires: [],
+  },
+  {
+    id: "Completed",
+    label: "Completed",
+    color: "bg-green-600",
+    closed: true,
+    assessed: false,
+    transitions: ["Logged", "Assessed"],
+    requires: ["team", "action"],
+  },
+] as const satisfies readonly StatusDefinition[];
+
+export type WorkflowStatus = (typeof STATUS_WORKFLOW)[number]["id"];
+
+/** Status given to newly logged returns */
+export const INITIAL_STATUS: WorkflowStatus = "Logged";
+
+// Status changes made automatically when a field is set
+const AUTO_TRANSITIONS: Array<{ field: WorkflowField; to: WorkflowStatus }> = [
+  { field: "action", to: "Assessed" },
+];
+
+const FIELD_LABELS: Record<WorkflowField, string> = {
+  team: "assign a team",
+  action: "select an action",
+};
+
+const UNKNOWN_STATUS_COLOR = "bg-gray-500";
+
+export function getStatus(id: string | null | undefined): StatusDefinition | undefined {
+  return STATUS_WORKFLOW.find((status) => status.id === id);
+}
+
+/** Narrow a stored or selected value to one of the workflow states */
+export function isWorkflowStatus(id: string | null | undefined): id is WorkflowStatus {
+  return STATUS_WORKFLOW.some((status) => status.id === id);
+}
+
+export function isClosedStatus(id: string | null | undefined): boolean {
+  return getStatus(id)?.closed ?? false;
+}
+
+export function isAssessedStatus(id: string | null | undefined): boolean {
+  return getStatus(id)?.assessed ?? false;
+}
+
+export function getStatusColor(id: string | null | undefined): string {
+  return getStatus(id)?.color ?? UNKNOWN_STATUS_COLOR;
+}
+
+/** Ids of the states matching a predicate, for building list filters */
+export function statusIdsWhere(predicate: (status: StatusDefinition) => boolean): string[] {
+  return STATUS_WORKFLOW.filter(predicate).map((status) => status.id);
+}
+
+function firstClosedStatus(): WorkflowStatus {
+  const closed = STATUS_WORKFLOW.find((status) => status.closed);
+  if (!closed) {
+    throw new Error("STATUS_WORKFLOW needs at least one closed status for the Final screen.");
+  }
+  return closed.id;
+}
+
+/** Status used on the Final screen when a record has none */
+export const DEFAULT_CLOSED_STATUS: WorkflowStatus = firstClosedStatus();
+
+/**
+ * Check a status change against the workflow
+ * Returns a message explaining why the change isn't allowed, or null if it is
+ */
+export function validateTransition(
+  from: string | null | undefined,
+  to: string | null | undefined,
+  fields: Partial<Record<WorkflowField, string | null>>
+): string | null {
+  if (!to) return null;
+
+  const target = getStatus(to);
+  if (!target) {
+    return `Unknown status "${to}"`;
+  }
+
+  // Records without a known status (older rows) can move to any state
+  const current = getStatus(from);
+  if (current && current.id !== target.id && !current.transitions.includes(target.id)) {
+    return `A return can't move from ${current.label} to ${target.label}`;
+  }
+
+  const missing = target.requires.find((field) => (fields[field] ?? "").trim() === "");
+  if (missing) {
+    return `Please ${FIELD_LABELS[missing]} before marking as ${target.label}`;
+  }
+
+  return null;
+}
+
+/** Status after a workflow field is changed, applying any automatic transition */
+export function statusAfterFieldChange(
+  status: string | null | undefined,
+  field: WorkflowField,
+  value: string | null | undefined
+): string | null | undefined {
+  if (!value) return status;
+  const auto = AUTO_TRANSITIONS.find((rule) => rule.field === field);
+  if (!auto || auto.to === status) return status;
+
+  const current = getStatus(status);
+  if (current && !current.transitions.includes(auto.to)) return status;
+  return auto.to;
+}
@@ -0,0 +1,146 @@
+/**
+ * Storage housekeeping for uploaded photos
+ * Deletes files a failed submission left behind, finds objects no return or line item references and moves
+ * photos into the invoice folder layout
+ */
+
+import { returnsRepository } from "./returns-repository";
+import { lineItemsRepository } from "./line-items";
+import { logger } from "./logger";
+import { imageReference, invoiceFolder, storagePathOf } from "./photo-storage";
+import { getStorageProvider, type StoredObject } from "./storage-provider";
+
+export type { StoredObject };
+
+// Objects newer than this are left alone - they may belong to a submission still being saved or queued offline
+export const ORPHAN_GRACE_MS = 7 * 24 * 60 * 60 * 1000;
+// Annotated photos keep their unannotated original in this subfolder, next to the photo the record references
+const ORIGINALS_FOLDER = "originals";
+
+/** Delete objects from storage, returning the paths that were removed */
+export async function removeStorageObjects(paths: string[]): Promise<string[]> {
+  return getStorageProvider().delete(paths);
+}
+
+/** The photo an original was kept for - "<folder>/originals/<file>" belongs to "<folder>/<file>" */
+function annotatedPath(path: string): string | null {
+  const parts = path.split("/");
+  if (parts.length < 2 || parts[parts.length - 2] !== ORIGINALS_FOLDER) return null;
+  return [...parts.slice(0, -2), parts[parts.length - 1]].join("/");
+}
+
+/**
+ * Objects in storage that no return or line item references, oldest first
+ * Originals count as referenced while their annotated photo is; anything newer than graceMs is skipped
+ */
+export async function findOrphanedObjects(graceMs = ORPHAN_GRACE_MS): Promise<StoredObject[]> {
+  const [returnUrls, lineItemUrls, objects] = await Promise.all([
+    returnsRepository.listImageUrls(),
+    lineItemsRepository.listImageUrls(),
+    getStorageProvider().list(),
+  ]);
+
+  const referenced = new Set(
+    [...returnUrls, ...lineItemUrls]
+      .map((ref) => storagePathOf(ref))
+      .filter((path): path is string => path !== null)
+  );
+  const cutoff = Date.now() - graceMs;
+
+  return objects
+    .filter((object) => !referenced.has(object.path))
+    .filter((object) => {
+      const photo = annotatedPath(object.path);
+      return !photo || !referenced.has(photo);
+    })
+    .filter((object) => new Date(object.createdAt).getTime() < cutoff)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export type LayoutMigrationProgress = {
+  done: number; // Returns processed so far
+  total: number;
+};
+
+export type LayoutMigrationResult = {
+  returns: number; // Returns whose photos were moved
+  files: number; // Objects moved, originals included
+  failed: number[]; // Invoice numbers that could not be migrated - safe to run again
+};
+
+function folderOf(path: string) {
+  return path.split("/").slice(0, -1).join("/");
+}
+
+function fileOf(path: string) {
+  return path.split("/").pop() ?? path;
+}
+
+/**
+ * Move every return's photos into <account>/<invoice>/ and point the records at the new paths
+ * Objects are copied, the line items and then the return updated, then the old copies deleted - an interrupted run
+ * leaves records pointing at files that still exist, and a rerun picks up any photo either of them still has
+ * outside the invoice folder
+ */
+export async function migrateToInvoiceLayout(
+  onProgress?: (progress: LayoutMigrationProgress) => void
+): Promise<LayoutMigrationResult> {
+  const provider = getStorageProvider();
+  const [returns, objects] = await Promise.all([returnsRepository.listImageSets(), provider.list()]);
+  const stored = new Set(objects.map((object) => object.path));
+  const result: LayoutMigrationResult = { returns: 0, files: 0, failed: [] };
+
+  for (const [index, record] of returns.entries()) {
+    onProgress?.({ done: index, total: returns.length });
+    const folder = invoiceFolder(record.accountNumber, record.InvoiceNumber);
+
+    try {
+      // Source -> destination for each photo outside the invoice folder, with its original when it has one
+      const lineItems = await lineItemsRepository.listForInvoice(record.InvoiceNumber);
+      const moves = new Map<string, string>();
+      [...record.images, ...lineItems.flatMap((line) => line.images)].forEach((ref) => {
+        const path = storagePathOf(ref);
+        if (!path || folderOf(path) === folder) return;
+        moves.set(path, `${folder}/${fileOf(path)}`);
+        const original = `${folderOf(path)}/${ORIGINALS_FOLDER}/${fileOf(path)}`;
+        if (stored.has(original)) moves.set(original, `${folder}/${ORIGINALS_FOLDER}/${fileOf(path)}`);
+      });
+      if (moves.size === 0) continue;
+
+      for (const [from, to] of moves) {
+        // Already copied by an earlier, interrupted run
+        if (stored.has(to)) continue;
+        if (!stored.has(from)) throw new Error(`Missing file ${from}`);
+        await provider.copy(from, to);
+        stored.add(to);
+      }
+
+      const rewrite = (ref: string) => {
+        const path = storagePathOf(ref);
+        const to = path ? moves.get(path) : undefined;
+        return to ? imageReference(to) : ref;
+      };
+      // Line items first - while the return still lists the old paths, a rerun finds this invoice again
+      await lineItemsRepository.rewriteImages(record.InvoiceNumber, rewrite);
+      // Rewritten against the latest row, so photos added since the scan started are kept
+      if (!(await returnsRepository.rewriteImages(record.InvoiceNumber, rewrite))) {
+        // Return deleted since the scan - its old files are left for the orphan cleanup, drop the new copies
+        await removeStorageObjects([...moves.values()]);
+        moves.forEach((to) => stored.delete(to));
+        continue;
+      }
+
+      await removeStorageObjects([...moves.keys()]);
+      moves.forEach((_, from) => stored.delete(from));
+      result.returns++;
+      result.files += moves.size;
+    } catch (error) {
+      logger.error("Layout migration failed for invoice:", record.InvoiceNumber, error);
+      result.failed.push(record.InvoiceNumber);
+    }
+  }
+
+  onProgress?.({ done: returns.length, total: returns.length });
+  logger.log("Layout migration moved", result.files, "files across", result.returns, "returns");
+  return result;
+}
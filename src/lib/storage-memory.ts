@@ -0,0 +1,78 @@
+/**
+ * In-memory storage provider for development without a storage backend
+ * Objects live in the page until it is reloaded and are shown through object URLs
+ */
+
+import type { StorageProvider } from "./storage-provider";
+import { StorageUploadError } from "./storage-upload";
+
+// Simulated upload speed, so progress bars can be exercised locally
+const BYTES_PER_TICK = 256 * 1024;
+const TICK_MS = 50;
+
+type MemoryObject = {
+  blob: Blob;
+  url: string;
+  createdAt: string;
+};
+
+/** Provider keeping uploads in a Map for the lifetime of the page */
+export function createMemoryStorage(): StorageProvider {
+  const objects = new Map<string, MemoryObject>();
+
+  return {
+    name: "memory",
+    bucket: "memory",
+    isPublic: true,
+
+    async upload(path, file, onProgress) {
+      if (objects.has(path)) throw new StorageUploadError(`Object already exists: ${path}`, 409);
+      for (let loaded = 0; loaded < file.size; loaded += BYTES_PER_TICK) {
+        onProgress?.(loaded, file.size);
+        await new Promise((resolve) => setTimeout(resolve, TICK_MS));
+      }
+      objects.set(path, { blob: file, url: URL.createObjectURL(file), createdAt: new Date().toISOString() });
+      onProgress?.(file.size, file.size);
+    },
+
+    async copy(from, to) {
+      const object = objects.get(from);
+      if (!object) throw new Error("Failed to copy file in storage. Please try again.");
+      if (objects.has(to)) throw new StorageUploadError(`Object already exists: ${to}`, 409);
+      objects.set(to, { blob: object.blob, url: URL.createObjectURL(object.blob), createdAt: new Date().toISOString() });
+    },
+
+    async delete(paths) {
+      return paths.filter((path) => {
+        const object = objects.get(path);
+        if (!object) return false;
+        URL.revokeObjectURL(object.url);
+        return objects.delete(path);
+      });
+    },
+
+    async getUrl(path) {
+      const object = objects.get(path);
+      if (!object) throw new Error("Failed to load image. Please try again.");
+      return object.url;
+    },
+
+    publicUrl(path) {
+      return objects.get(path)?.url ?? null;
+    },
+
+    pathFromUrl(url) {
+      for (const [path, object] of objects) {
+        if (object.url === url) return path;
+      }
+      return null;
+    },
+
+    async list(prefix = "") {
+      const folder = prefix ? `${prefix.replace(/\/+$/, "")}/` : "";
+      return [...objects]
+        .filter(([path]) => path.startsWith(folder))
+        .map(([path, object]) => ({ path, size: object.blob.size, createdAt: object.createdAt }));
+    },
+  };
+}
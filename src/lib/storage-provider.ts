@@ -0,0 +1,63 @@
+/**
+ * Pluggable storage backend for return photos
+ * Uploads, URLs, listing and deletion go through the provider selected by VITE_STORAGE_PROVIDER:
+ * "supabase" (default), "s3" for any S3-compatible store, or "memory" for development without a backend
+ */
+
+import { createSupabaseStorage } from "./storage-supabase";
+import { createS3Storage } from "./storage-s3";
+import { createMemoryStorage } from "./storage-memory";
+import type { UploadProgressHandler } from "./storage-upload";
+
+export type StorageProviderName = "supabase" | "s3" | "memory";
+
+export type StoredObject = {
+  path: string;
+  size: number;
+  createdAt: string;
+};
+
+export interface StorageProvider {
+  readonly name: StorageProviderName;
+  readonly bucket: string;
+  /** Objects can be read without signing - records then store public URLs rather than paths */
+  readonly isPublic: boolean;
+  /** Upload one object, failing if the path is already taken; throws StorageUploadError */
+  upload(path: string, file: File, onProgress?: UploadProgressHandler): Promise<void>;
+  /** Copy an object to a new path, failing if the destination is already taken */
+  copy(from: string, to: string): Promise<void>;
+  /** Delete objects, returning the paths that were removed */
+  delete(paths: string[]): Promise<string[]>;
+  /** URL the browser can load - signed and valid for expiresIn seconds unless the store is public */
+  getUrl(path: string, expiresIn: number): Promise<string>;
+  /** Same as getUrl for many paths at once, where the backend can sign in bulk */
+  getUrls?(paths: string[], expiresIn: number): Promise<Map<string, string>>;
+  /** Permanent URL of a public object, or null when the store isn't public */
+  publicUrl(path: string): string | null;
+  /** Object path a public URL of this store points at, or null for other URLs */
+  pathFromUrl(url: string): string | null;
+  /** Every object under the prefix, including subfolders */
+  list(prefix?: string): Promise<StoredObject[]>;
+}
+
+const PROVIDER_NAMES: StorageProviderName[] = ["supabase", "s3", "memory"];
+
+function configuredProviderName(): StorageProviderName {
+  const raw = String(import.meta.env.VITE_STORAGE_PROVIDER ?? "").trim().toLowerCase();
+  if (!raw) return "supabase";
+  if (!(PROVIDER_NAMES as string[]).includes(raw)) {
+    throw new Error(`Unknown VITE_STORAGE_PROVIDER "${raw}". Use one of: ${PROVIDER_NAMES.join(", ")}.`);
+  }
+  return raw as StorageProviderName;
+}
+
+let provider: StorageProvider | null = null;
+
+/** The configured storage provider, created on first use */
+export function getStorageProvider(): StorageProvider {
+  if (!provider) {
+    const name = configuredProviderName();
+    provider = name === "s3" ? createS3Storage() : name === "memory" ? createMemoryStorage() : createSupabaseStorage();
+  }
+  return provider;
+}
@@ -0,0 +1,173 @@
+/**
+ * S3-compatible storage provider (AWS S3, Cloudflare R2, MinIO, ...)
+ * The browser only knows the endpoint and bucket - every request is presigned by the edge function below, which
+ * holds the access keys. Without VITE_S3_PUBLIC_URL the bucket is treated as private and read through presigned URLs
+ *
+ * Expected edge function 's3-presign' (supabase/functions/s3-presign):
+ * - body: { requests: [{ method, path, query?, headers? }], expiresIn }
+ * - returns: { urls: string[] } - one presigned URL per request, in order
+ * - signs only for signed-in users, and only GET/HEAD/PUT/DELETE within S3_BUCKET
+ */
+
+import { supabase } from "./supabaseClient";
+import { logger } from "./logger";
+import type { StorageProvider, StoredObject } from "./storage-provider";
+import { StorageUploadError, xhrUpload } from "./storage-upload";
+
+const PRESIGN_FUNCTION = "s3-presign";
+// ListObjectsV2 returns at most this many keys per page
+const LIST_PAGE_SIZE = 1000;
+// Lifetime of URLs signed for a request made straight away
+const REQUEST_URL_TTL_SECONDS = 5 * 60;
+
+type PresignRequest = {
+  method: "GET" | "HEAD" | "PUT" | "DELETE";
+  path: string; // Object key, or "" for the bucket itself
+  query?: Record<string, string>;
+  headers?: Record<string, string>; // Signed, so the request must send them unchanged
+};
+
+function requiredEnv(name: string, value: unknown) {
+  const v = String(value ?? "").trim();
+  if (!v) throw new Error(`Missing ${name} env var, required when VITE_STORAGE_PROVIDER is "s3".`);
+  return v;
+}
+
+function encodePath(path: string) {
+  return path.split("/").map(encodeURIComponent).join("/");
+}
+
+/** Presigned URLs for the requests, in the same order */
+async function presign(requests: PresignRequest[], expiresIn = REQUEST_URL_TTL_SECONDS): Promise<string[]> {
+  const { data, error } = await supabase.functions.invoke<{ urls: string[] }>(PRESIGN_FUNCTION, {
+    body: { requests, expiresIn },
+  });
+  if (error || !data || data.urls.length !== requests.length) {
+    logger.error("Storage signing error:", error ?? data);
+    throw new Error("Failed to reach storage. Please try again.");
+  }
+  return data.urls;
+}
+
+async function presignOne(request: PresignRequest, expiresIn?: number) {
+  const [url] = await presign([request], expiresIn);
+  return url;
+}
+
+/** Provider for the bucket at VITE_S3_ENDPOINT, addressed path-style so it works with non-AWS stores */
+export function createS3Storage(): StorageProvider {
+  const env = import.meta.env;
+  const endpoint = requiredEnv("VITE_S3_ENDPOINT", env.VITE_S3_ENDPOINT).replace(/\/+$/, "");
+  const bucket = requiredEnv("VITE_S3_BUCKET", env.VITE_S3_BUCKET);
+  const publicBase = String(env.VITE_S3_PUBLIC_URL ?? "").trim().replace(/\/+$/, "");
+
+  const exists = async (path: string) => {
+    const response = await fetch(await presignOne({ method: "HEAD", path }), { method: "HEAD" });
+    return response.ok;
+  };
+
+  const list = async (prefix = ""): Promise<StoredObject[]> => {
+    const objects: StoredObject[] = [];
+    let token: string | null = null;
+    do {
+      const query: Record<string, string> = { "list-type": "2", "max-keys": String(LIST_PAGE_SIZE) };
+      if (prefix) query.prefix = `${prefix.replace(/\/+$/, "")}/`;
+      if (token) query["continuation-token"] = token;
+
+      const response = await fetch(await presignOne({ method: "GET", path: "", query }));
+      if (!response.ok) {
+        logger.error("Storage list error:", response.status, await response.text());
+        throw new Error("Failed to list stored files. Please try again.");
+      }
+      const xml = new DOMParser().parseFromString(await response.text(), "application/xml");
+      const text = (node: Element | Document, tag: string) => node.getElementsByTagName(tag)[0]?.textContent ?? "";
+      for (const entry of Array.from(xml.getElementsByTagName("Contents"))) {
+        const path = text(entry, "Key");
+        // Zero-byte keys ending in a slash are folder markers created by some consoles
+        if (path.endsWith("/")) continue;
+        objects.push({ path, size: Number(text(entry, "Size")), createdAt: text(entry, "LastModified") });
+      }
+      token = text(xml, "IsTruncated") === "true" ? text(xml, "NextContinuationToken") || null : null;
+    } while (token);
+    return objects;
+  };
+
+  const getUrls = async (paths: string[], expiresIn: number) => {
+    const urls = new Map<string, string>();
+    if (publicBase) {
+      paths.forEach((path) => urls.set(path, `${publicBase}/${encodePath(path)}`));
+      return urls;
+    }
+    const signed = await presign(
+      paths.map((path) => ({ method: "GET", path })),
+      expiresIn
+    );
+    paths.forEach((path, i) => urls.set(path, signed[i]));
+    return urls;
+  };
+
+  return {
+    name: "s3",
+    bucket,
+    isPublic: !!publicBase,
+
+    async upload(path, file, onProgress) {
+      // S3 overwrites silently, so check first to keep the same no-overwrite behaviour as the other providers
+      if (await exists(path)) throw new StorageUploadError(`Object already exists: ${path}`, 409);
+
+      const url = await presignOne({ method: "PUT", path });
+      return xhrUpload("PUT", url, file, { "Content-Type": file.type || "application/octet-stream" }, onProgress);
+    },
+
+    async copy(from, to) {
+      if (await exists(to)) throw new StorageUploadError(`Object already exists: ${to}`, 409);
+      const headers = { "x-amz-copy-source": `/${encodeURIComponent(bucket)}/${encodePath(from)}` };
+      const response = await fetch(await presignOne({ method: "PUT", path: to, headers }), { method: "PUT", headers });
+      if (!response.ok) {
+        logger.error("Storage copy error:", response.status, await response.text());
+        throw new Error("Failed to copy file in storage. Please try again.");
+      }
+    },
+
+    async delete(paths) {
+      // One request per object - multi-object delete needs a Content-MD5 header that SubtleCrypto can't produce
+      const urls = paths.length > 0 ? await presign(paths.map((path) => ({ method: "DELETE", path }))) : [];
+      const removed: string[] = [];
+      for (const [i, path] of paths.entries()) {
+        const response = await fetch(urls[i], { method: "DELETE" });
+        if (!response.ok && response.status !== 404) {
+          logger.error("Storage cleanup error:", response.status, await response.text());
+          throw new Error("Failed to delete files from storage. Please try again.");
+        }
+        removed.push(path);
+      }
+      return removed;
+    },
+
+    async getUrl(path, expiresIn) {
+      const url = (await getUrls([path], expiresIn)).get(path);
+      if (!url) throw new Error("Failed to load image. Please try again.");
+      return url;
+    },
+
+    getUrls,
+
+    publicUrl(path) {
+      return publicBase ? `${publicBase}/${encodePath(path)}` : null;
+    },
+
+    pathFromUrl(url) {
+      const prefixes = [`${endpoint}/${encodeURIComponent(bucket)}/`, ...(publicBase ? [`${publicBase}/`] : [])];
+      const prefix = prefixes.find((p) => url.startsWith(p));
+      if (!prefix) return null;
+      const path = url.slice(prefix.length).split("?")[0];
+      try {
+        return decodeURIComponent(path);
+      } catch {
+        return path;
+      }
+    },
+
+    list,
+  };
+}
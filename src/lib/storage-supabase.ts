@@ -0,0 +1,214 @@
+/**
+ * Supabase Storage provider (the default)
+ * Small files are uploaded in one request; larger ones go through Supabase's TUS endpoint so a dropped
+ * connection resumes from the last confirmed chunk instead of starting again
+ */
+
+import * as tus from "tus-js-client";
+import { supabase, SUPABASE_ANON_KEY, SUPABASE_URL } from "./supabaseClient";
+import { logger } from "./logger";
+import type { StorageProvider, StoredObject } from "./storage-provider";
+import { StorageUploadError, xhrUpload, type UploadProgressHandler } from "./storage-upload";
+
+// Files above this use the resumable endpoint
+const RESUMABLE_THRESHOLD = 1024 * 1024;
+// Supabase only accepts 6MB chunks for resumable uploads
+const TUS_CHUNK_SIZE = 6 * 1024 * 1024;
+// Storage list and remove calls take at most this many entries
+const BATCH_SIZE = 100;
+// Created by the dashboard when a folder is made by hand
+const PLACEHOLDER_NAME = ".emptyFolderPlaceholder";
+
+/** Normalize bucket value — accept plain name or a copied URL and return only the bucket name */
+export function normalizeBucket(raw: string) {
+  let b = raw.trim();
+  try {
+    if (b.includes("://")) {
+      const u = new URL(b);
+      const parts = u.pathname.split("/").filter(Boolean);
+      if (parts.length) b = parts[parts.length - 1];
+    } else if (b.includes("/")) {
+      b = b.split("/").filter(Boolean).pop() ?? b;
+    }
+  } catch {
+    /* fallback to raw */
+  }
+  return b;
+}
+
+async function authToken() {
+  const { data } = await supabase.auth.getSession();
+  return data.session?.access_token ?? SUPABASE_ANON_KEY;
+}
+
+function encodePath(path: string) {
+  return path.split("/").map(encodeURIComponent).join("/");
+}
+
+/** Chunked TUS upload - a retry with the same path picks up the partial upload */
+async function uploadResumable(bucket: string, path: string, file: File, onProgress?: UploadProgressHandler) {
+  const token = await authToken();
+  return new Promise<void>((resolve, reject) => {
+    const upload = new tus.Upload(file, {
+      endpoint: `${SUPABASE_URL}/storage/v1/upload/resumable`,
+      // Retries are handled by uploadStorageObject, which resumes through the fingerprint below
+      retryDelays: null,
+      chunkSize: TUS_CHUNK_SIZE,
+      headers: {
+        apikey: SUPABASE_ANON_KEY,
+        authorization: `Bearer ${token}`,
+        "x-upsert": "false",
+      },
+      uploadDataDuringCreation: true,
+      removeFingerprintOnSuccess: true,
+      // The destination identifies the upload, so a restart (even after a reload) finds the partial one
+      fingerprint: async () => `returns-app-${bucket}/${path}`,
+      metadata: {
+        bucketName: bucket,
+        objectName: path,
+        contentType: file.type || "application/octet-stream",
+        cacheControl: "3600",
+      },
+      onProgress: (loaded, total) => onProgress?.(loaded, total),
+      onSuccess: () => resolve(),
+      onError: (error) => {
+        const status = (error as tus.DetailedError).originalResponse?.getStatus() ?? 0;
+        reject(new StorageUploadError(error.message, status));
+      },
+    });
+
+    upload
+      .findPreviousUploads()
+      .then((previous) => {
+        if (previous.length > 0) upload.resumeFromPreviousUpload(previous[0]);
+        upload.start();
+      })
+      .catch(reject);
+  });
+}
+
+/** Provider for VITE_SUPABASE_BUCKET - private when VITE_SUPABASE_BUCKET_PRIVATE is "true" */
+export function createSupabaseStorage(): StorageProvider {
+  const rawBucket = String(import.meta.env.VITE_SUPABASE_BUCKET ?? "").trim();
+  if (!rawBucket) {
+    throw new Error(
+      "Missing VITE_SUPABASE_BUCKET env var. Set it to the storage bucket name (e.g. '123456789')."
+    );
+  }
+  const bucket = normalizeBucket(rawBucket);
+  const isPublic = String(import.meta.env.VITE_SUPABASE_BUCKET_PRIVATE ?? "").trim().toLowerCase() !== "true";
+  const publicPrefix = `/storage/v1/object/public/${bucket}/`;
+
+  const list = async (prefix = ""): Promise<StoredObject[]> => {
+    const objects: StoredObject[] = [];
+    for (let offset = 0; ; offset += BATCH_SIZE) {
+      const { data, error } = await supabase.storage
+        .from(bucket)
+        .list(prefix, { limit: BATCH_SIZE, offset, sortBy: { column: "name", order: "asc" } });
+      if (error) {
+        logger.error("Storage list error:", error);
+        throw new Error("Failed to list stored files. Please try again.");
+      }
+      const entries = data ?? [];
+      for (const entry of entries) {
+        const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+        // Folders are listed without an id
+        if (entry.id === null) {
+          objects.push(...(await list(path)));
+        } else if (entry.name !== PLACEHOLDER_NAME) {
+          objects.push({ path, size: Number(entry.metadata?.size ?? 0), createdAt: entry.created_at });
+        }
+      }
+      if (entries.length < BATCH_SIZE) return objects;
+    }
+  };
+
+  const getUrls = async (paths: string[], expiresIn: number) => {
+    const urls = new Map<string, string>();
+    if (isPublic) {
+      paths.forEach((path) => urls.set(path, supabase.storage.from(bucket).getPublicUrl(path).data.publicUrl));
+      return urls;
+    }
+    const { data, error } = await supabase.storage.from(bucket).createSignedUrls(paths, expiresIn);
+    if (error) {
+      logger.error("Error signing image URLs:", error);
+      throw new Error("Failed to load images. Please try again.");
+    }
+    (data ?? []).forEach((entry) => {
+      if (entry.path && entry.signedUrl) urls.set(entry.path, entry.signedUrl);
+      else logger.log("Could not sign image URL:", entry.path, entry.error);
+    });
+    return urls;
+  };
+
+  return {
+    name: "supabase",
+    bucket,
+    isPublic,
+
+    async upload(path, file, onProgress) {
+      if (file.size > RESUMABLE_THRESHOLD && tus.isSupported) {
+        return uploadResumable(bucket, path, file, onProgress);
+      }
+      const token = await authToken();
+      return xhrUpload(
+        "POST",
+        `${SUPABASE_URL}/storage/v1/object/${encodeURIComponent(bucket)}/${encodePath(path)}`,
+        file,
+        {
+          apikey: SUPABASE_ANON_KEY,
+          Authorization: `Bearer ${token}`,
+          "Content-Type": file.type || "application/octet-stream",
+          "x-upsert": "false",
+        },
+        onProgress
+      );
+    },
+
+    async copy(from, to) {
+      const { error } = await supabase.storage.from(bucket).copy(from, to);
+      if (error) {
+        logger.error("Storage copy error:", error);
+        throw new Error("Failed to copy file in storage. Please try again.");
+      }
+    },
+
+    async delete(paths) {
+      const removed: string[] = [];
+      for (let i = 0; i < paths.length; i += BATCH_SIZE) {
+        const { data, error } = await supabase.storage.from(bucket).remove(paths.slice(i, i + BATCH_SIZE));
+        if (error) {
+          logger.error("Storage cleanup error:", error);
+          throw new Error("Failed to delete files from storage. Please try again.");
+        }
+        removed.push(...(data ?? []).map((object) => object.name));
+      }
+      return removed;
+    },
+
+    async getUrl(path, expiresIn) {
+      const url = (await getUrls([path], expiresIn)).get(path);
+      if (!url) throw new Error("Failed to load image. Please try again.");
+      return url;
+    },
+
+    getUrls,
+
+    publicUrl(path) {
+      return isPublic ? supabase.storage.from(bucket).getPublicUrl(path).data.publicUrl : null;
+    },
+
+    pathFromUrl(url) {
+      const index = url.indexOf(publicPrefix);
+      if (index === -1) return null;
+      const path = url.slice(index + publicPrefix.length).split("?")[0];
+      try {
+        return decodeURIComponent(path);
+      } catch {
+        return path;
+      }
+    },
+
+    list,
+  };
+}
@@ -0,0 +1,112 @@
+/**
+ * Upload plumbing shared by the storage providers
+ * Single-request uploads go through XHR so byte progress can be reported, and transient failures are
+ * retried with backoff whichever provider is in use
+ */
+
+import type { StorageProvider } from "./storage-provider";
+import { logger } from "./logger";
+
+export type UploadProgressHandler = (loaded: number, total: number) => void;
+
+/** Thrown when the storage API rejects an upload or the request fails */
+export class StorageUploadError extends Error {
+  status: number; // HTTP status, 0 when the request never completed
+  transient: boolean; // Worth retrying - network loss, timeouts, rate limits and server errors
+  alreadyExists: boolean; // The path is taken - Supabase reports this as a 400 with a "Duplicate" body
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "StorageUploadError";
+    this.status = status;
+    this.transient = status === 0 || status === 408 || status === 429 || status >= 500;
+    this.alreadyExists = status === 409 || (status === 400 && /duplicate|already exists/i.test(message));
+  }
+}
+
+// Delay before each retry of a transient failure
+const RETRY_DELAYS_MS = [1000, 3000, 10000];
+// A request making no progress for this long is abandoned and retried
+const REQUEST_TIMEOUT_MS = 60 * 1000;
+
+/** Send a file in one request, reporting upload progress */
+export function xhrUpload(
+  method: "POST" | "PUT",
+  url: string,
+  file: File,
+  headers: Record<string, string>,
+  onProgress?: UploadProgressHandler
+): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(method, url);
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.timeout = REQUEST_TIMEOUT_MS;
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress?.(event.loaded, event.total);
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress?.(file.size, file.size);
+        resolve();
+      } else {
+        reject(new StorageUploadError(xhr.responseText || `Upload failed with status ${xhr.status}`, xhr.status));
+      }
+    };
+    xhr.onerror = () => reject(new StorageUploadError("Network error during upload", 0));
+    xhr.ontimeout = () => reject(new StorageUploadError("Upload timed out", 0));
+    xhr.send(file);
+  });
+}
+
+function delay(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Upload through the provider, retrying transient failures with backoff
+ * A retry that finds the path taken means an earlier attempt landed and only its response was lost
+ */
+export async function uploadStorageObject(
+  provider: StorageProvider,
+  path: string,
+  file: File,
+  onProgress?: UploadProgressHandler
+): Promise<void> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await provider.upload(path, file, onProgress);
+    } catch (error) {
+      if (attempt > 0 && error instanceof StorageUploadError && error.alreadyExists) {
+        logger.log("Storage upload already landed", path);
+        onProgress?.(file.size, file.size);
+        return;
+      }
+      const transient = error instanceof StorageUploadError && error.transient;
+      if (!transient || attempt >= RETRY_DELAYS_MS.length) throw error;
+      logger.log("Retrying storage upload", path, "attempt", attempt + 2, error);
+      onProgress?.(0, file.size);
+      // Jitter keeps parallel uploads from retrying in lockstep
+      await delay(RETRY_DELAYS_MS[attempt] * (0.75 + Math.random() * 0.5));
+    }
+  }
+}
+
+/** Run fn over items with at most `limit` in flight, results in the same order as items */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
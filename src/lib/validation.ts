@@ -3,7 +3,7 @@
  */
 
 const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
-const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'image/gif'];
+const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'image/gif', 'image/avif'];
 const MAX_INPUT_LENGTH = 1000;
 const MAX_ACCOUNT_NUMBER_LENGTH = 50;
 const MAX_INVOICE_NUMBER_LENGTH = 50;
@@ -38,7 +38,7 @@ export function validateFileSize(size: number): ValidationResult {
  */
 export function validateFileType(mimeType: string): ValidationResult {
   if (!ALLOWED_IMAGE_TYPES.includes(mimeType.toLowerCase())) {
-    return { valid: false, error: 'Only image files (JPEG, PNG, WebP, GIF) are allowed' };
+    return { valid: false, error: 'Only image files (JPEG, PNG, WebP, GIF, AVIF) are allowed' };
   }
   return { valid: true };
 }
@@ -47,7 +47,7 @@ export function validateFileType(mimeType: string): ValidationResult {
  * Validate image blob by checking first bytes (magic numbers)
  */
 export async function validateImageContent(blob: Blob): Promise<ValidationResult> {
-  const arrayBuffer = await blob.slice(0, 4).arrayBuffer();
+  const arrayBuffer = await blob.slice(0, 12).arrayBuffer();
   const bytes = new Uint8Array(arrayBuffer);
   
   // Check for common image file signatures
@@ -55,8 +55,10 @@ export async function validateImageContent(blob: Blob): Promise<ValidationResult
   const isPNG = bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4E && bytes[3] === 0x47;
   const isGIF = bytes[0] === 0x47 && bytes[1] === 0x49 && bytes[2] === 0x46;
   const isWebP = bytes[0] === 0x52 && bytes[1] === 0x49 && bytes[2] === 0x46 && bytes[3] === 0x46;
+  // ISO-BMFF "ftyp" box with the "avif" brand
+  const isAVIF = String.fromCharCode(...bytes.slice(4, 12)) === 'ftypavif';
   
-  if (!isJPEG && !isPNG && !isGIF && !isWebP) {
+  if (!isJPEG && !isPNG && !isGIF && !isWebP && !isAVIF) {
     return { valid: false, error: 'Invalid image file format' };
   }
   
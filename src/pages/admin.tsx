@@ -0,0 +1,13 @@
+import ReferenceDataAdmin from "@/components/reference-data-admin";
+import StorageMaintenanceAdmin from "@/components/storage-maintenance-admin";
+import StorageLayoutAdmin from "@/components/storage-layout-admin";
+
+export default function Admin() {
+  return (
+    <div className="w-full min-h-screen">
+      <ReferenceDataAdmin />
+      <StorageMaintenanceAdmin />
+      <StorageLayoutAdmin />
+    </div>
+  );
+}
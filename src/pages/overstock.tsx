@@ -4,13 +4,19 @@ import { Button } from "@/components/ui/button";
 import FormData from "@/components/ui/form-data";
 import ImagePanel from "@/components/ui/image-panel";
 import type { UploadResult } from "@/components/ui/upload";
+import type { DraftImage } from "@/lib/offline-queue";
+import type { DraftLineItem } from "@/lib/line-items";
+import { RETAIL_FORMATS } from "@/lib/barcode-decoders";
 
 export default function Overstock() {
   const [uploadResults, setUploadResults] = useState<UploadResult[]>([]);
   const [invoiceNumber, setInvoiceNumber] = useState<string>("");
+  const [accountNumber, setAccountNumber] = useState<string>("");
   const uploadAllUnuploadedRef = useRef<(() => Promise<UploadResult[]>) | null>(null);
   const clearGalleryRef = useRef<(() => void) | null>(null);
   const unmarkUploadedRef = useRef<((itemIds: string[]) => void) | null>(null);
+  const getUnuploadedItemsRef = useRef<(() => DraftImage[]) | null>(null);
+  const getLineItemsRef = useRef<(() => DraftLineItem[]) | null>(null);
 
   return (
     <div className="w-full h-full bg-white m-0 p-4 sm:p-6 flex flex-col gap-4 sm:gap-6">
@@ -24,15 +30,20 @@ export default function Overstock() {
         isOverstock={true}
         isDamages={false}
         onInvoiceNumberChange={setInvoiceNumber}
+        onAccountNumberChange={setAccountNumber}
         onUploadAllUnuploaded={() => uploadAllUnuploadedRef.current?.() ?? Promise.resolve([])}
         onClearImages={() => clearGalleryRef.current?.()}
         onUnmarkUploaded={(itemIds) => unmarkUploadedRef.current?.(itemIds)}
+        onGetUnuploadedItems={() => getUnuploadedItemsRef.current?.() ?? []}
+        onGetLineItems={() => getLineItemsRef.current?.() ?? []}
       />
 
       {/* Bottom Row */}
       <ImagePanel 
         onUploadResultsChange={setUploadResults}
         invoiceNumber={invoiceNumber}
+        accountNumber={accountNumber}
+        acceptedFormats={RETAIL_FORMATS}
         isOverstock={true}
         onUploadAllUnuploadedReady={(uploadFn) => {
           uploadAllUnuploadedRef.current = uploadFn;
@@ -43,6 +54,12 @@ export default function Overstock() {
         onUnmarkUploadedReady={(unmarkFn) => {
           unmarkUploadedRef.current = unmarkFn;
         }}
+        onGetUnuploadedItemsReady={(getFn) => {
+          getUnuploadedItemsRef.current = getFn;
+        }}
+        onGetLineItemsReady={(getFn) => {
+          getLineItemsRef.current = getFn;
+        }}
       />
     </div>
   );
@@ -0,0 +1,72 @@
+import { useState, useRef } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import FormData from "@/components/ui/form-data";
+import ImagePanel from "@/components/ui/image-panel";
+import ListComponent from "@/components/ui/list-component";
+import type { UploadResult } from "@/components/ui/upload";
+import type { DraftImage } from "@/lib/offline-queue";
+import type { DraftLineItem } from "@/lib/line-items";
+import { RETAIL_FORMATS } from "@/lib/barcode-decoders";
+
+export default function Returns() {
+  const [uploadResults, setUploadResults] = useState<UploadResult[]>([]);
+  const [invoiceNumber, setInvoiceNumber] = useState<string>("");
+  const [accountNumber, setAccountNumber] = useState<string>("");
+  const uploadAllUnuploadedRef = useRef<(() => Promise<UploadResult[]>) | null>(null);
+  const clearGalleryRef = useRef<(() => void) | null>(null);
+  const unmarkUploadedRef = useRef<((itemIds: string[]) => void) | null>(null);
+  const getUnuploadedItemsRef = useRef<(() => DraftImage[]) | null>(null);
+  const getLineItemsRef = useRef<(() => DraftLineItem[]) | null>(null);
+
+  return (
+    <div className="w-full h-full bg-white m-0 p-4 sm:p-6 flex flex-col gap-4 sm:gap-6">
+      <Button asChild className="w-fit">
+        <Link to="/">Back</Link>
+      </Button>
+      {/* Top Row */}
+      <FormData 
+        key="returns-form"
+        uploadResults={uploadResults} 
+        isOverstock={false}
+        isDamages={false}
+        onInvoiceNumberChange={setInvoiceNumber}
+        onAccountNumberChange={setAccountNumber}
+        onUploadAllUnuploaded={() => uploadAllUnuploadedRef.current?.() ?? Promise.resolve([])}
+        onClearImages={() => clearGalleryRef.current?.()}
+        onUnmarkUploaded={(itemIds) => unmarkUploadedRef.current?.(itemIds)}
+        onGetUnuploadedItems={() => getUnuploadedItemsRef.current?.() ?? []}
+        onGetLineItems={() => getLineItemsRef.current?.() ?? []}
+      />
+
+      {/* Middle Row */}
+      <ImagePanel 
+        onUploadResultsChange={setUploadResults}
+        invoiceNumber={invoiceNumber}
+        accountNumber={accountNumber}
+        acceptedFormats={[...RETAIL_FORMATS, "qr-url"]}
+        onUploadAllUnuploadedReady={(uploadFn) => {
+          uploadAllUnuploadedRef.current = uploadFn;
+        }}
+        onClearGalleryReady={(clearFn) => {
+          clearGalleryRef.current = clearFn;
+        }}
+        onUnmarkUploadedReady={(unmarkFn) => {
+          unmarkUploadedRef.current = unmarkFn;
+        }}
+        onGetUnuploadedItemsReady={(getFn) => {
+          getUnuploadedItemsRef.current = getFn;
+        }}
+        onGetLineItemsReady={(getFn) => {
+          getLineItemsRef.current = getFn;
+        }}
+      />
+
+      {/* Bottom Row - customer returns still waiting for Sales */}
+      <div className="flex flex-col gap-2">
+        <h2 className="text-lg font-semibold">Logged customer returns</h2>
+        <ListComponent source="returns" />
+      </div>
+    </div>
+  );
+}
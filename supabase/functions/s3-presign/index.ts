@@ -0,0 +1,102 @@
+/**
+ * Presigns S3 requests for the "s3" storage provider (src/lib/storage-s3.ts)
+ * The access keys live only in this function's secrets: S3_ENDPOINT, S3_BUCKET, S3_REGION,
+ * S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY. Only signed-in users get URLs, and only for S3_BUCKET
+ */
+
+import { AwsClient } from "npm:aws4fetch@1";
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+const METHODS = ["GET", "HEAD", "PUT", "DELETE"];
+// Longest lifetime a caller can ask for - the app signs image URLs for 15 minutes
+const MAX_EXPIRES_SECONDS = 60 * 60;
+// Most requests signed in one call
+const MAX_REQUESTS = 1000;
+
+type PresignRequest = {
+  method: string;
+  path: string;
+  query?: Record<string, string>;
+  headers?: Record<string, string>;
+};
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+function env(name: string) {
+  const value = (Deno.env.get(name) ?? "").trim();
+  if (!value) throw new Error(`Missing ${name} secret`);
+  return value;
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function encodePath(path: string) {
+  return path.split("/").map(encodeURIComponent).join("/");
+}
+
+function isValidRequest(request: PresignRequest) {
+  return (
+    METHODS.includes(request.method) &&
+    typeof request.path === "string" &&
+    !request.path.startsWith("/") &&
+    !request.path.split("/").some((part) => part === "." || part === "..") &&
+    // The bucket itself can only be listed
+    (request.path !== "" || request.method === "GET")
+  );
+}
+
+const endpoint = env("S3_ENDPOINT").replace(/\/+$/, "");
+const bucket = env("S3_BUCKET");
+const client = new AwsClient({
+  accessKeyId: env("S3_ACCESS_KEY_ID"),
+  secretAccessKey: env("S3_SECRET_ACCESS_KEY"),
+  service: "s3",
+  region: (Deno.env.get("S3_REGION") ?? "").trim() || "auto",
+});
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") return json({ error: "Method not allowed" }, 405);
+
+  const supabase = createClient(env("SUPABASE_URL"), env("SUPABASE_ANON_KEY"), {
+    global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+  });
+  const { data: auth } = await supabase.auth.getUser();
+  if (!auth.user) return json({ error: "Not signed in" }, 401);
+
+  let body: { requests?: PresignRequest[]; expiresIn?: number };
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: "Invalid body" }, 400);
+  }
+  const requests = body.requests ?? [];
+  if (!Array.isArray(requests) || requests.length > MAX_REQUESTS || !requests.every(isValidRequest)) {
+    return json({ error: "Invalid requests" }, 400);
+  }
+  const expiresIn = Math.min(Math.max(Math.floor(Number(body.expiresIn) || 0), 1), MAX_EXPIRES_SECONDS);
+
+  const urls = await Promise.all(
+    requests.map(async (request) => {
+      const bucketUrl = `${endpoint}/${encodeURIComponent(bucket)}`;
+      const url = new URL(request.path ? `${bucketUrl}/${encodePath(request.path)}` : bucketUrl);
+      Object.entries(request.query ?? {}).forEach(([name, value]) => url.searchParams.set(name, String(value)));
+      url.searchParams.set("X-Amz-Expires", String(expiresIn));
+      const signed = await client.sign(url.toString(), {
+        method: request.method,
+        headers: request.headers,
+        aws: { signQuery: true },
+      });
+      return signed.url;
+    })
+  );
+  return json({ urls });
+});